@@ -1,8 +1,28 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect, useCallback } from 'react';
 import RouteForm, { RouteFormData } from './components/RouteForm';
 import ImageSlideshow from './components/ImageSlideshow';
-import { geocodeAddress, getRouteCoordinates, getMapillaryImagesBatch } from './services/api';
-import { generateEvenlySpacedPoints, distance } from './utils/calculations';
+import SettingsPanel from './components/SettingsPanel';
+import RouteChooser from './components/RouteChooser';
+import DriveLibrary from './components/DriveLibrary';
+import { getServiceConfig } from './services/config';
+import { getScoringConfig } from './services/scoring';
+import { DriveEvent, PlanEvent, RouteOption } from './services/drivePipeline';
+import type { RouteResult } from './services/api';
+import {
+  NewSavedDrive,
+  saveDrive,
+  getSavedDrive,
+  getSavedDriveImages,
+  getDefaultDriveName,
+  getSaveImagesPreference,
+} from './services/driveLibrary';
+import { openDrivePackage, exportDrivePackage, getPackageFileName } from './services/drivePackage';
+import { DriveHandle, planRoutes, startDrive } from './services/driveWorkerClient';
+import { TRAVEL_PROFILES, DEFAULT_PROFILE } from './utils/profiles';
+import { DriveFrame, Waypoint, WaypointStatus } from './utils/drive';
+import { DriveLinkState, serializeDriveLink, parseDriveLink, updateDriveLinkPlayback } from './utils/deepLink';
+import { RouteManeuver } from './utils/guidance';
+import { downloadBlob } from './utils/download';
 import './App.css';
 
 interface LoadingState {
@@ -11,202 +31,403 @@ interface LoadingState {
   message: string;
 }
 
+interface DriveStartOptions {
+  playbackSpeed?: number;
+  frameIndex?: number;
+  /** The URL already describes this drive (page load or back/forward), so don't push a history entry */
+  fromHistory?: boolean;
+  /** Alternative route already picked, so the route chooser is skipped */
+  routeIndex?: number;
+  /** The picked route itself, when it was just planned */
+  route?: RouteResult;
+}
+
 const App: React.FC = () => {
-  const [images, setImages] = useState<string[]>([]);
-  const [coordinates, setCoordinates] = useState<[number, number][]>([]);
+  const [frames, setFrames] = useState<DriveFrame[]>([]);
+  const [route, setRoute] = useState<[number, number][]>([]);
+  const [waypoints, setWaypoints] = useState<Waypoint[]>([]);
+  const [waypointStatuses, setWaypointStatuses] = useState<WaypointStatus[]>([]);
+  const [waypointRejections, setWaypointRejections] = useState<string[]>([]);
+  const [maneuvers, setManeuvers] = useState<RouteManeuver[]>([]);
   const [loadingState, setLoadingState] = useState<LoadingState>({
     isLoading: false,
     progress: 0,
     message: '',
   });
   const [showSlideshow, setShowSlideshow] = useState(false);
-  const cancelDownloadRef = useRef(false);
-
-  const parseCoordinateInput = (input: string): string => {
-    // Check if it's already in coordinate format
-    const trimmed = input.trim();
-    if (trimmed.includes(',')) {
-      const parts = trimmed.split(',').map((s) => s.trim());
-      if (parts.length === 2) {
-        const lat = parseFloat(parts[0]);
-        const lon = parseFloat(parts[1]);
-        
-        if (!isNaN(lat) && !isNaN(lon)) {
-          // Validate lat/lon ranges
-          if (lat >= -90 && lat <= 90 && lon >= -180 && lon <= 180) {
-            // Input is lat,lon - convert to lon,lat for OSRM
-            console.log(`Parsed coordinates: lat=${lat}, lon=${lon} -> OSRM format: ${lon},${lat}`);
-            return `${lon},${lat}`;
-          } else {
-            throw new Error(`Invalid coordinates: lat must be -90 to 90, lon must be -180 to 180. Got: ${lat},${lon}`);
-          }
+  const [showSettings, setShowSettings] = useState(false);
+  const [showLibrary, setShowLibrary] = useState(false);
+  // Set when a drive finishes, so the effect below saves it with the final state
+  const [driveFinished, setDriveFinished] = useState(false);
+  // Alternatives waiting for the user to pick one, before the drive starts
+  const [routeOptions, setRouteOptions] = useState<RouteOption[] | null>(null);
+  const [playbackSpeed, setPlaybackSpeed] = useState(TRAVEL_PROFILES.driving.playbackSpeedMs);
+  const [lastFormData, setLastFormData] = useState<RouteFormData | null>(null);
+  const [initialFrameIndex, setInitialFrameIndex] = useState(0);
+  const [driveId, setDriveId] = useState(0);
+  // Drive being fetched in the background, cancelled when it is stopped or replaced
+  const driveRef = useRef<DriveHandle | null>(null);
+  // Route planning in progress, cancelled when another drive is requested
+  const planRef = useRef<DriveHandle | null>(null);
+  // Form, start options and planned routes the route chooser is for
+  const pendingDriveRef = useRef<{ form: RouteFormData; startOptions: DriveStartOptions; options: RouteOption[] } | null>(null);
+  // Incremented for every drive so the slideshow starts fresh
+  const driveIdRef = useRef(0);
+  // Link state of the drive on screen, kept in sync with the URL
+  const driveLinkRef = useRef<DriveLinkState | null>(null);
+  // Object URLs of a replayed drive's stored images, revoked when it is left
+  const replayImageUrlsRef = useRef<string[]>([]);
+  // Replayed drive as stored, with its original image URLs, for exporting it again
+  const replaySourceRef = useRef<{ drive: NewSavedDrive; images: Map<number, Blob> } | null>(null);
+
+  const releaseReplayImages = () => {
+    replayImageUrlsRef.current.forEach((url) => URL.revokeObjectURL(url));
+    replayImageUrlsRef.current = [];
+    replaySourceRef.current = null;
+  };
+
+  const updateDriveUrl = (playback: Pick<DriveLinkState, 'playbackSpeed' | 'frameIndex'>) => {
+    if (!driveLinkRef.current) return;
+    driveLinkRef.current = { ...driveLinkRef.current, ...playback };
+    window.history.replaceState(null, '', `?${updateDriveLinkPlayback(window.location.search, playback)}`);
+  };
+
+  const handleFormSubmit = (formData: RouteFormData, startOptions: DriveStartOptions = {}) => {
+    driveRef.current?.cancel();
+    planRef.current?.cancel();
+    setLastFormData(formData);
+    setRouteOptions(null);
+
+    // Imported tracks have no alternatives, and links already name the route they used
+    if (formData.track || startOptions.routeIndex !== undefined) {
+      beginDrive(formData, startOptions);
+      return;
+    }
+
+    setLoadingState({ isLoading: true, progress: 0, message: 'Finding routes...' });
+
+    planRef.current = planRoutes(
+      { form: formData, serviceConfig: getServiceConfig(), scoringConfig: getScoringConfig() },
+      (event: PlanEvent) => {
+        switch (event.type) {
+          case 'progress':
+            setLoadingState({ isLoading: true, progress: event.progress, message: event.message });
+            break;
+          case 'options':
+            planRef.current = null;
+            if (event.options.length === 1) {
+              beginDrive(formData, { ...startOptions, routeIndex: 0, route: event.options[0].route });
+              break;
+            }
+            pendingDriveRef.current = { form: formData, startOptions, options: event.options };
+            setRouteOptions(event.options);
+            setLoadingState({ isLoading: false, progress: 0, message: '' });
+            break;
+          case 'error':
+            alert(`Error: ${event.message}`);
+            planRef.current = null;
+            setLoadingState({ isLoading: false, progress: 0, message: '' });
+            break;
         }
       }
-    }
-    return input; // Return as-is for geocoding
+    );
   };
 
-  const isCoordinates = (input: string): boolean => {
-    const trimmed = input.trim();
-    // Must contain exactly one comma
-    const parts = trimmed.split(',');
-    if (parts.length !== 2) return false;
-    
-    // Both parts must be valid numbers
-    const first = parseFloat(parts[0].trim());
-    const second = parseFloat(parts[1].trim());
-    
-    if (isNaN(first) || isNaN(second)) return false;
-    
-    // Check if they're in valid lat/lon ranges
-    // Could be lat,lon or lon,lat format
-    const isLatLon = first >= -90 && first <= 90 && second >= -180 && second <= 180;
-    const isLonLat = second >= -90 && second <= 90 && first >= -180 && first <= 180;
-    
-    return isLatLon || isLonLat;
+  const handleRouteChosen = (routeIndex: number) => {
+    const pending = pendingDriveRef.current;
+    if (!pending) return;
+    pendingDriveRef.current = null;
+    beginDrive(pending.form, { ...pending.startOptions, routeIndex, route: pending.options[routeIndex]?.route });
   };
 
-  const handleFormSubmit = async (formData: RouteFormData) => {
+  const handleChooserBack = () => {
+    pendingDriveRef.current = null;
+    setRouteOptions(null);
+  };
+
+  const beginDrive = (formData: RouteFormData, startOptions: DriveStartOptions) => {
+    releaseReplayImages();
+    setDriveId(++driveIdRef.current);
+    setRouteOptions(null);
     setLoadingState({ isLoading: true, progress: 0, message: 'Processing route...' });
-    setImages([]);
-    setCoordinates([]);
+    setFrames([]);
+    setRoute([]);
+    setWaypoints([]);
+    setWaypointStatuses([]);
+    setWaypointRejections([]);
+    setManeuvers([]);
     setShowSlideshow(false);
-    cancelDownloadRef.current = false; // Reset cancel flag for new download
 
-    try {
-      // Parse or geocode origin and destination
-      setLoadingState({ isLoading: true, progress: 10, message: 'Geocoding origin...' });
-      let originCoords: string;
-      if (isCoordinates(formData.origin)) {
-        originCoords = parseCoordinateInput(formData.origin);
-        console.log('Origin is coordinates:', originCoords);
-      } else {
-        console.log('Geocoding origin address:', formData.origin);
-        originCoords = await geocodeAddress(formData.origin);
-      }
-      console.log('Origin coords (lon,lat):', originCoords);
-
-      setLoadingState({ isLoading: true, progress: 20, message: 'Geocoding destination...' });
-      let destCoords: string;
-      if (isCoordinates(formData.destination)) {
-        destCoords = parseCoordinateInput(formData.destination);
-        console.log('Destination is coordinates:', destCoords);
-      } else {
-        console.log('Geocoding destination address:', formData.destination);
-        destCoords = await geocodeAddress(formData.destination);
-      }
-      console.log('Destination coords (lon,lat):', destCoords);
+    const profileSettings = TRAVEL_PROFILES[formData.profile];
+    const speed = startOptions.playbackSpeed || profileSettings.playbackSpeedMs;
+    setPlaybackSpeed(speed);
+    setInitialFrameIndex(startOptions.frameIndex || 0);
 
-      // Get route coordinates
-      setLoadingState({ isLoading: true, progress: 30, message: 'Fetching route...' });
-      const routeCoords = await getRouteCoordinates(originCoords, destCoords);
+    const linkState: DriveLinkState = {
+      form: formData,
+      playbackSpeed: speed,
+      frameIndex: startOptions.frameIndex || 0,
+      routeIndex: startOptions.routeIndex,
+    };
+    driveLinkRef.current = linkState;
+    if (!startOptions.fromHistory) {
+      window.history.pushState(null, '', `?${serializeDriveLink(linkState)}`);
+    }
 
-      if (routeCoords.length === 0) {
-        alert('No route found between these locations');
-        setLoadingState({ isLoading: false, progress: 0, message: '' });
-        return;
+    driveRef.current = startDrive(
+      {
+        form: formData,
+        serviceConfig: getServiceConfig(),
+        scoringConfig: getScoringConfig(),
+        routeIndex: startOptions.routeIndex,
+        route: startOptions.route,
+      },
+      handleDriveEvent
+    );
+  };
+
+  const handleDriveEvent = (event: DriveEvent) => {
+    switch (event.type) {
+      case 'progress':
+        setLoadingState({ isLoading: true, progress: event.progress, message: event.message });
+        break;
+      case 'route':
+        setRoute(event.route);
+        setWaypoints(event.waypoints);
+        setManeuvers(event.maneuvers);
+        setWaypointStatuses(event.waypoints.map(() => 'pending'));
+        setWaypointRejections(event.waypoints.map(() => ''));
+        // Show slideshow immediately with empty images - it will display loading state
+        setShowSlideshow(true);
+        break;
+      case 'batch': {
+        const { startWaypoint, statuses, rejections, frames: newFrames } = event;
+        const splice = <T,>(previous: T[], updates: T[]) => {
+          const next = [...previous];
+          next.splice(startWaypoint, updates.length, ...updates);
+          return next;
+        };
+        setWaypointStatuses((previous) => splice(previous, statuses));
+        setWaypointRejections((previous) => splice(previous, rejections));
+        if (newFrames.length > 0) {
+          setFrames((previous) => [...previous, ...newFrames]);
+        }
+        break;
       }
+      case 'done':
+        setLoadingState({ isLoading: false, progress: 100, message: 'Complete!' });
+        setDriveFinished(true);
+        driveRef.current = null;
+        break;
+      case 'error':
+        alert(`Error: ${event.message}`);
+        setLoadingState({ isLoading: false, progress: 0, message: '' });
+        driveRef.current = null;
+        break;
+    }
+  };
 
-      // Generate evenly spaced points along the route (default 50m spacing)
-      // This ensures we get images at regular intervals instead of clustering
-      setLoadingState({ isLoading: true, progress: 30, message: 'Generating evenly spaced waypoints...' });
-      const spacedPoints = generateEvenlySpacedPoints(routeCoords, 50); // 50 meters between points
-      
-      console.log(`Route has ${routeCoords.length} points, generated ${spacedPoints.length} evenly spaced waypoints`);
-
-      // Fetch images for each waypoint
-      const fetchedImages: string[] = [];
-      const fetchedCoordinates: [number, number][] = [];
-      const usedImageIds = new Set<string>();
-      const usedImageLocations: [number, number][] = [];
-      const minImageDistanceKm = 0.03; // 30 meters minimum between images
-
-      // Prepare all points with their headings
-      const pointsToFetch = spacedPoints.map(({ coord, bearing }) => {
-        return { coord, heading: bearing };
-      });
+  const stopDrive = () => {
+    driveRef.current?.cancel();
+    driveRef.current = null;
+    planRef.current?.cancel();
+    planRef.current = null;
+    pendingDriveRef.current = null;
+    driveLinkRef.current = null;
+    setRouteOptions(null);
+    releaseReplayImages();
+    setShowSlideshow(false);
+    setLoadingState({ isLoading: false, progress: 0, message: '' });
+  };
 
-      // Show slideshow immediately with empty images - it will display loading state
-      setShowSlideshow(true);
-      
-      // Fetch images in batches of 10 for much faster processing
-      setLoadingState({
-        isLoading: true,
-        progress: 35,
-        message: `Fetching images in parallel batches...`,
-      });
+  // The generated drive on screen, as kept in the library and in packages
+  const getCurrentDrive = (): NewSavedDrive | null => {
+    if (!lastFormData) return null;
+    return {
+      name: getDefaultDriveName(lastFormData),
+      form: lastFormData,
+      routeIndex: driveLinkRef.current?.routeIndex,
+      route,
+      waypoints,
+      waypointStatuses,
+      waypointRejections,
+      maneuvers,
+      frames,
+    };
+  };
 
-      const batchSize = 10;
-      for (let i = 0; i < pointsToFetch.length; i += batchSize) {
-        // Check if download was cancelled
-        if (cancelDownloadRef.current) {
-          console.log('Download cancelled by user');
-          break;
-        }
-        
-        const batch = pointsToFetch.slice(i, i + batchSize);
-        const batchResults = await getMapillaryImagesBatch(batch, batchSize);
-        
-        // Process batch results
-        batchResults.forEach((imageData, idx) => {
-          if (imageData && !usedImageIds.has(imageData.id)) {
-            const [imgLon, imgLat] = imageData.geometry.coordinates;
-            const imageCoord: [number, number] = [imgLat, imgLon];
-            
-            let tooClose = false;
-            for (const usedLocation of usedImageLocations) {
-              if (distance(imageCoord, usedLocation) < minImageDistanceKm) {
-                tooClose = true;
-                break;
-              }
-            }
-            
-            if (!tooClose) {
-              fetchedImages.push(imageData.thumbUrl);
-              fetchedCoordinates.push(imageCoord);
-              usedImageIds.add(imageData.id);
-              usedImageLocations.push(imageCoord);
-            }
-          }
-        });
-
-        // Update images progressively as they're fetched
-        setImages([...fetchedImages]);
-        setCoordinates([...fetchedCoordinates]);
-
-        const progress = 35 + Math.floor(((i + batch.length) / pointsToFetch.length) * 65);
-        setLoadingState({
-          isLoading: true,
-          progress,
-          message: `Fetched ${Math.min(i + batchSize, pointsToFetch.length)}/${pointsToFetch.length} images (${fetchedImages.length} unique)`,
-        });
-      }
+  // Keep every completed drive in the library
+  useEffect(() => {
+    if (!driveFinished) return;
+    setDriveFinished(false);
+    const drive = getCurrentDrive();
+    if (!drive || frames.length === 0) return;
+
+    saveDrive(drive, { includeImages: getSaveImagesPreference() })
+      .catch((error) => console.error('Could not save drive to the library:', error));
+  }, [driveFinished]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const handleExportPackage = async (onProgress: (done: number, total: number) => void) => {
+    // A replay already has its images, and its frames point at them rather than at Mapillary
+    const source = replaySourceRef.current;
+    const drive = source ? source.drive : getCurrentDrive();
+    if (!drive) return;
+
+    try {
+      const zip = await exportDrivePackage(drive, source ? source.images : new Map(), onProgress);
+      downloadBlob(zip, getPackageFileName(drive.name));
+    } catch (error) {
+      console.error('Could not export drive package:', error);
+      alert(`Error: ${error instanceof Error ? error.message : 'Could not export the drive package'}`);
+    }
+  };
+
+  // Play a stored drive (from the library or a package); stored images replace the remote ones
+  const playStoredDrive = (drive: NewSavedDrive, images: Map<number, Blob>) => {
+    driveRef.current?.cancel();
+    driveRef.current = null;
+    planRef.current?.cancel();
+    planRef.current = null;
+    driveLinkRef.current = null;
+    releaseReplayImages();
+    replaySourceRef.current = { drive, images };
+
+    const replayFrames = drive.frames.map((frame, index) => {
+      const image = images.get(index);
+      if (!image) return frame;
+      const url = URL.createObjectURL(image);
+      replayImageUrlsRef.current.push(url);
+      return { ...frame, thumbUrl: url };
+    });
+
+    setShowLibrary(false);
+    setDriveId(++driveIdRef.current);
+    setLastFormData(drive.form);
+    setRouteOptions(null);
+    setFrames(replayFrames);
+    setRoute(drive.route);
+    setWaypoints(drive.waypoints);
+    setWaypointStatuses(drive.waypointStatuses);
+    setWaypointRejections(drive.waypointRejections);
+    setManeuvers(drive.maneuvers);
+    setPlaybackSpeed(TRAVEL_PROFILES[drive.form.profile].playbackSpeedMs);
+    setInitialFrameIndex(0);
+    setLoadingState({ isLoading: false, progress: 100, message: '' });
+    setShowSlideshow(true);
+  };
+
+  const handleReplay = async (id: string) => {
+    try {
+      const [drive, images] = await Promise.all([getSavedDrive(id), getSavedDriveImages(id)]);
+      if (!drive) throw new Error('Saved drive not found');
+      playStoredDrive(drive, images);
+    } catch (error) {
+      console.error('Could not replay saved drive:', error);
+      alert(`Error: ${error instanceof Error ? error.message : 'Could not replay saved drive'}`);
+    }
+  };
 
-      setLoadingState({ isLoading: false, progress: 100, message: 'Complete!' });
+  const handleOpenPackage = async (file: File) => {
+    try {
+      const { drive, images } = await openDrivePackage(file);
+      playStoredDrive(drive, images);
     } catch (error) {
-      console.error('Error generating route:', error);
-      alert(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      setLoadingState({ isLoading: false, progress: 0, message: '' });
+      console.error('Could not open drive package:', error);
+      alert(`Error: ${error instanceof Error ? error.message : 'Could not open drive package'}`);
     }
   };
 
   const handleCloseSlideshow = () => {
-    cancelDownloadRef.current = true;
-    setShowSlideshow(false);
-    setLoadingState({ isLoading: false, progress: 0, message: '' });
+    stopDrive();
+    // Back returns to the drive, forward to the form
+    window.history.pushState(null, '', window.location.pathname);
   };
 
+  // Keep the frame index in the URL so a reload or shared link resumes at the same spot
+  const handleFrameChange = useCallback((frameIndex: number) => {
+    if (driveLinkRef.current && driveLinkRef.current.frameIndex !== frameIndex) {
+      updateDriveUrl({ frameIndex });
+    }
+  }, []);
+
+  const handlePlaybackSpeedChange = useCallback((speed: number) => {
+    updateDriveUrl({ playbackSpeed: speed });
+  }, []);
+
+  const startDriveFromUrl = () => {
+    const link = parseDriveLink(window.location.search);
+    if (link) {
+      handleFormSubmit(link.form, {
+        playbackSpeed: link.playbackSpeed,
+        frameIndex: link.frameIndex,
+        fromHistory: true,
+        routeIndex: link.routeIndex,
+      });
+      return true;
+    }
+    return false;
+  };
+
+  // Auto-start a drive described by the URL on first load
+  const initialLinkHandledRef = useRef(false);
+  useEffect(() => {
+    if (initialLinkHandledRef.current) return;
+    initialLinkHandledRef.current = true;
+    startDriveFromUrl();
+  }, []); // eslint-disable-line react-hooks/exhaustive-deps
+
+  // Browser back/forward moves between the form and the drive
+  useEffect(() => {
+    const handlePopState = () => {
+      if (!startDriveFromUrl()) {
+        stopDrive();
+      }
+    };
+
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []); // eslint-disable-line react-hooks/exhaustive-deps
+
   return (
     <div className={`App ${showSlideshow ? 'slideshow-active' : ''}`}>
       {!showSlideshow ? (
-        <RouteForm onSubmit={handleFormSubmit} isLoading={loadingState.isLoading} />
+        routeOptions ? (
+          <RouteChooser options={routeOptions} onSelect={handleRouteChosen} onBack={handleChooserBack} />
+        ) : (
+          <RouteForm
+            onSubmit={handleFormSubmit}
+            isLoading={loadingState.isLoading}
+            onOpenSettings={() => setShowSettings(true)}
+            onOpenLibrary={() => setShowLibrary(true)}
+            initialData={lastFormData}
+          />
+        )
       ) : (
         <ImageSlideshow 
-          images={images} 
-          coordinates={coordinates} 
+          key={driveId}
+          frames={frames}
+          route={route}
+          waypoints={waypoints}
+          waypointStatuses={waypointStatuses}
+          waypointRejections={waypointRejections}
+          maneuvers={maneuvers}
           onClose={handleCloseSlideshow}
           isLoading={loadingState.isLoading}
           loadingMessage={loadingState.message}
+          initialPlaybackSpeed={playbackSpeed}
+          initialVirtualSpeedKmh={TRAVEL_PROFILES[lastFormData?.profile || DEFAULT_PROFILE].virtualSpeedKmh}
+          initialIndex={initialFrameIndex}
+          onIndexChange={handleFrameChange}
+          onPlaybackSpeedChange={handlePlaybackSpeedChange}
+          onExportPackage={handleExportPackage}
+        />
+      )}
+      {showSettings && <SettingsPanel onClose={() => setShowSettings(false)} />}
+      {showLibrary && (
+        <DriveLibrary
+          onReplay={handleReplay}
+          onOpenPackage={handleOpenPackage}
+          onClose={() => setShowLibrary(false)}
         />
       )}
     </div>
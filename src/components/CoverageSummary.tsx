@@ -0,0 +1,74 @@
+import React from 'react';
+import { CoverageReport, CoverageGap, formatDistance } from '../utils/coverage';
+import './CoverageSummary.css';
+
+interface CoverageSummaryProps {
+  report: CoverageReport;
+  isLoading?: boolean;
+  onSelectGap?: (gap: CoverageGap) => void;
+  onClose: () => void;
+}
+
+// Longest gaps listed individually; the rest are only counted
+const MAX_LISTED_GAPS = 8;
+
+const coverageClass = (percent: number): string => {
+  if (percent >= 80) return 'good';
+  if (percent >= 50) return 'fair';
+  return 'poor';
+};
+
+const CoverageSummary: React.FC<CoverageSummaryProps> = ({ report, isLoading = false, onSelectGap, onClose }) => {
+  const { coveragePercent, searchedMeters, coveredMeters, gaps } = report;
+  const uncoveredMeters = searchedMeters - coveredMeters;
+
+  return (
+    <div className="coverage-summary">
+      <h3>Coverage {isLoading && <small>(still searching)</small>}</h3>
+
+      <div className="coverage-bar">
+        <div
+          className={`coverage-bar-fill ${coverageClass(coveragePercent)}`}
+          style={{ width: `${coveragePercent}%` }}
+        />
+        <span>{coveragePercent.toFixed(0)}% with imagery</span>
+      </div>
+
+      <p className="coverage-note">
+        {formatDistance(coveredMeters)} of {formatDistance(searchedMeters)} searched has images.
+        {gaps.length > 0
+          ? ` ${gaps.length} gap${gaps.length === 1 ? '' : 's'} totalling ${formatDistance(uncoveredMeters)}.`
+          : ' No gaps so far.'}
+      </p>
+
+      {gaps.length > 0 && (
+        <ol className="coverage-gaps">
+          {gaps.slice(0, MAX_LISTED_GAPS).map((gap) => (
+            <li key={gap.startWaypoint}>
+              <button
+                type="button"
+                onClick={() => onSelectGap?.(gap)}
+                title="Jump to the frame just before this gap"
+              >
+                <span>
+                  Waypoints {gap.startWaypoint + 1}
+                  {gap.endWaypoint > gap.startWaypoint && `–${gap.endWaypoint + 1}`}
+                </span>
+                <strong>{formatDistance(gap.lengthMeters)}</strong>
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+      {gaps.length > MAX_LISTED_GAPS && (
+        <p className="coverage-note">…and {gaps.length - MAX_LISTED_GAPS} shorter gaps</p>
+      )}
+
+      <div className="coverage-actions">
+        <button className="control-btn" onClick={onClose}>Close</button>
+      </div>
+    </div>
+  );
+};
+
+export default CoverageSummary;
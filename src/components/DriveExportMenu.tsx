@@ -0,0 +1,69 @@
+import React, { useState } from 'react';
+import { DriveData } from '../utils/drive';
+import { driveToGeoJSON, driveToGPX } from '../utils/routeExport';
+import { downloadBlob, fileTimestamp } from '../utils/download';
+
+interface DriveExportMenuProps {
+  drive: DriveData;
+  disabled?: boolean;
+  /** Build and download a drive package (.zip), reporting how many images are ready */
+  onExportPackage?: (onProgress: (done: number, total: number) => void) => Promise<void>;
+}
+
+const DriveExportMenu: React.FC<DriveExportMenuProps> = ({ drive, disabled = false, onExportPackage }) => {
+  // Images ready while a package is being built
+  const [packaging, setPackaging] = useState<{ done: number; total: number } | null>(null);
+
+  const handleGeoJSON = () => {
+    const json = JSON.stringify(driveToGeoJSON(drive), null, 2);
+    downloadBlob(new Blob([json], { type: 'application/geo+json' }), `drive-${fileTimestamp()}.geojson`);
+  };
+
+  const handleGPX = () => {
+    const gpx = driveToGPX(drive);
+    downloadBlob(new Blob([gpx], { type: 'application/gpx+xml' }), `drive-${fileTimestamp()}.gpx`);
+  };
+
+  const handlePackage = async () => {
+    if (!onExportPackage) return;
+    setPackaging({ done: 0, total: drive.frames.length });
+    try {
+      await onExportPackage((done, total) => setPackaging({ done, total }));
+    } finally {
+      setPackaging(null);
+    }
+  };
+
+  return (
+    <>
+      <button
+        onClick={handleGeoJSON}
+        className="header-button"
+        disabled={disabled}
+        title="Download route, waypoints and images as GeoJSON"
+      >
+        ⬇ GeoJSON
+      </button>
+      <button
+        onClick={handleGPX}
+        className="header-button"
+        disabled={disabled}
+        title="Download route track and waypoints as GPX"
+      >
+        ⬇ GPX
+      </button>
+      {onExportPackage && (
+        <button
+          onClick={handlePackage}
+          className="header-button"
+          disabled={disabled || packaging !== null}
+          title="Download a zip with the images, a manifest and the route GeoJSON, playable without a Mapillary token"
+        >
+          {packaging ? `Packaging ${packaging.done}/${packaging.total}` : '⬇ Package'}
+        </button>
+      )}
+    </>
+  );
+};
+
+export default DriveExportMenu;
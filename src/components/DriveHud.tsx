@@ -0,0 +1,74 @@
+import React from 'react';
+import { formatDistance } from '../utils/coverage';
+import { VirtualSpeed, SPEED_UNIT_LABELS, toMetersPerSecond, formatDuration } from '../utils/playback';
+import './DriveHud.css';
+
+interface DriveHudProps {
+  /** Direction the camera faces, degrees clockwise from north */
+  heading: number;
+  distanceCoveredMeters: number;
+  distanceRemainingMeters: number;
+  /** Speed the ETA is estimated at */
+  speed: VirtualSpeed;
+}
+
+const CARDINALS = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'];
+
+const toCardinal = (heading: number): string => {
+  const normalized = ((heading % 360) + 360) % 360;
+  return CARDINALS[Math.round(normalized / 45) % CARDINALS.length];
+};
+
+const DriveHud: React.FC<DriveHudProps> = ({ heading, distanceCoveredMeters, distanceRemainingMeters, speed }) => {
+  const imperial = speed.unit === 'mph';
+  const totalMeters = distanceCoveredMeters + distanceRemainingMeters;
+  const progress = totalMeters > 0 ? (distanceCoveredMeters / totalMeters) * 100 : 0;
+  const metersPerSecond = toMetersPerSecond(speed);
+  const etaSeconds = metersPerSecond > 0 ? distanceRemainingMeters / metersPerSecond : null;
+
+  return (
+    <div className="drive-hud">
+      <div className="drive-hud-compass" title={`Heading ${Math.round(heading)}°`}>
+        {/* The rose turns so the camera direction is always at the top */}
+        <svg viewBox="-30 -30 60 60" width="60" height="60">
+          <circle r="28" className="drive-hud-compass-face" />
+          <g transform={`rotate(${-heading})`}>
+            {CARDINALS.filter((_, index) => index % 2 === 0).map((label, index) => (
+              <text
+                key={label}
+                transform={`rotate(${index * 90}) translate(0 -18) rotate(${heading - index * 90})`}
+                className={label === 'N' ? 'drive-hud-north' : ''}
+                textAnchor="middle"
+                dominantBaseline="central"
+              >
+                {label}
+              </text>
+            ))}
+          </g>
+          <path d="M0 -10 L5 6 L0 3 L-5 6 Z" className="drive-hud-needle" />
+        </svg>
+        <span>{Math.round(heading)}° {toCardinal(heading)}</span>
+      </div>
+
+      <div className="drive-hud-stats">
+        <div>
+          <small>Covered</small>
+          <strong>{formatDistance(distanceCoveredMeters, imperial)}</strong>
+        </div>
+        <div>
+          <small>Remaining</small>
+          <strong>{formatDistance(distanceRemainingMeters, imperial)}</strong>
+        </div>
+        <div>
+          <small>ETA @ {speed.value} {SPEED_UNIT_LABELS[speed.unit]}</small>
+          <strong>{etaSeconds !== null ? formatDuration(etaSeconds) : '–'}</strong>
+        </div>
+        <div className="drive-hud-progress" title={`${progress.toFixed(0)}% of the route`}>
+          <div className="drive-hud-progress-fill" style={{ width: `${progress}%` }} />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DriveHud;
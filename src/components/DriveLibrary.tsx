@@ -0,0 +1,207 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  SavedDriveSummary,
+  listSavedDrives,
+  getSavedDrive,
+  getSavedDriveImages,
+  renameSavedDrive,
+  deleteSavedDrive,
+  getSaveImagesPreference,
+  setSaveImagesPreference,
+} from '../services/driveLibrary';
+import { exportDrivePackage, getPackageFileName } from '../services/drivePackage';
+import { downloadBlob } from '../utils/download';
+import { TRAVEL_PROFILES } from '../utils/profiles';
+import { formatDistance } from '../utils/coverage';
+import './DriveLibrary.css';
+
+interface DriveLibraryProps {
+  onReplay: (id: string) => void;
+  /** Play a drive package (.zip) chosen by the user */
+  onOpenPackage: (file: File) => void;
+  onClose: () => void;
+}
+
+const DriveLibrary: React.FC<DriveLibraryProps> = ({ onReplay, onOpenPackage, onClose }) => {
+  const [drives, setDrives] = useState<SavedDriveSummary[] | null>(null);
+  const [error, setError] = useState('');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [nameDraft, setNameDraft] = useState('');
+  const [saveImages, setSaveImages] = useState(getSaveImagesPreference);
+  // Drive being packaged, with how many of its images are ready
+  const [exporting, setExporting] = useState<{ id: string; done: number; total: number } | null>(null);
+  const packageInputRef = useRef<HTMLInputElement>(null);
+
+  const refresh = () => {
+    listSavedDrives()
+      .then(setDrives)
+      .catch((listError) => {
+        console.error('Could not list saved drives:', listError);
+        setError(listError instanceof Error ? listError.message : 'Could not load saved drives');
+        setDrives([]);
+      });
+  };
+
+  useEffect(refresh, []);
+
+  const handleSaveImagesChange = (checked: boolean) => {
+    setSaveImages(checked);
+    setSaveImagesPreference(checked);
+  };
+
+  const startRename = (drive: SavedDriveSummary) => {
+    setRenamingId(drive.id);
+    setNameDraft(drive.name);
+  };
+
+  const handleRename = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = nameDraft.trim();
+    if (!renamingId || !name) return;
+
+    try {
+      await renameSavedDrive(renamingId, name);
+      setRenamingId(null);
+      refresh();
+    } catch (renameError) {
+      console.error('Could not rename drive:', renameError);
+      setError('Could not rename the drive');
+    }
+  };
+
+  const handleExport = async (summary: SavedDriveSummary) => {
+    setExporting({ id: summary.id, done: 0, total: summary.frameCount });
+    try {
+      const [drive, images] = await Promise.all([getSavedDrive(summary.id), getSavedDriveImages(summary.id)]);
+      if (!drive) throw new Error('Saved drive not found');
+
+      const zip = await exportDrivePackage(drive, images, (done, total) =>
+        setExporting({ id: summary.id, done, total })
+      );
+      downloadBlob(zip, getPackageFileName(drive.name));
+    } catch (exportError) {
+      console.error('Could not export drive package:', exportError);
+      setError('Could not export the drive package');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const handlePackageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset so choosing the same file again still fires a change
+    e.target.value = '';
+    if (file) onOpenPackage(file);
+  };
+
+  const handleDelete = async (drive: SavedDriveSummary) => {
+    if (!window.confirm(`Delete "${drive.name}"? This cannot be undone.`)) return;
+
+    try {
+      await deleteSavedDrive(drive.id);
+      refresh();
+    } catch (deleteError) {
+      console.error('Could not delete drive:', deleteError);
+      setError('Could not delete the drive');
+    }
+  };
+
+  return (
+    <>
+      <div className="library-backdrop" onClick={onClose} />
+      <div className="library-panel" role="dialog" aria-label="Saved drives">
+        <button className="library-close" onClick={onClose} aria-label="Close">
+          ✕
+        </button>
+        <h3>Saved drives</h3>
+        <p className="library-note">
+          Finished drives are saved in this browser and replay without any API calls.
+          Drives saved with their images also play offline (the maps still need tiles).
+        </p>
+
+        <label className="library-option">
+          <input
+            type="checkbox"
+            checked={saveImages}
+            onChange={(e) => handleSaveImagesChange(e.target.checked)}
+          />
+          Also save images with new drives (uses more storage)
+        </label>
+
+        <div className="library-package">
+          <button className="library-button" onClick={() => packageInputRef.current?.click()}>
+            📦 Open drive package...
+          </button>
+          <small>Play a .zip exported from this app, no Mapillary token needed</small>
+          <input
+            ref={packageInputRef}
+            type="file"
+            accept=".zip,application/zip"
+            onChange={handlePackageChange}
+            hidden
+          />
+        </div>
+
+        {error && <div className="library-error">{error}</div>}
+
+        {drives === null ? (
+          <p className="library-empty">Loading...</p>
+        ) : drives.length === 0 ? (
+          <p className="library-empty">No saved drives yet. Drives are added here once all their images are found.</p>
+        ) : (
+          <ul className="library-list">
+            {drives.map((drive) => (
+              <li key={drive.id} className="library-item">
+                <div className="library-item-info">
+                  {renamingId === drive.id ? (
+                    <form onSubmit={handleRename} className="library-rename">
+                      <input
+                        type="text"
+                        value={nameDraft}
+                        onChange={(e) => setNameDraft(e.target.value)}
+                        aria-label="Drive name"
+                        autoFocus
+                      />
+                      <button type="submit" disabled={!nameDraft.trim()}>Save</button>
+                      <button type="button" onClick={() => setRenamingId(null)}>Cancel</button>
+                    </form>
+                  ) : (
+                    <strong>
+                      {TRAVEL_PROFILES[drive.profile]?.icon} {drive.name}
+                    </strong>
+                  )}
+                  <small>
+                    {new Date(drive.createdAt).toLocaleString()} · {drive.frameCount} frames ·{' '}
+                    {formatDistance(drive.routeLengthMeters)}
+                    {drive.hasImages && <span className="library-badge">offline</span>}
+                  </small>
+                </div>
+                <div className="library-item-actions">
+                  <button className="library-button primary" onClick={() => onReplay(drive.id)}>
+                    ▶ Replay
+                  </button>
+                  <button
+                    className="library-button"
+                    onClick={() => handleExport(drive)}
+                    disabled={exporting !== null}
+                    title="Download a zip with the images, a manifest and the route GeoJSON"
+                  >
+                    {exporting?.id === drive.id ? `Packaging ${exporting.done}/${exporting.total}` : 'Export'}
+                  </button>
+                  <button className="library-button" onClick={() => startRename(drive)}>
+                    Rename
+                  </button>
+                  <button className="library-button danger" onClick={() => handleDelete(drive)}>
+                    Delete
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </>
+  );
+};
+
+export default DriveLibrary;
@@ -0,0 +1,46 @@
+import React from 'react';
+import { RouteManeuver, getManeuverIcon } from '../utils/guidance';
+import { formatDistance } from '../utils/coverage';
+import './GuidanceBanner.css';
+
+interface GuidanceBannerProps {
+  maneuver: RouteManeuver;
+  /** Distance from the current frame to the maneuver */
+  distanceMeters: number;
+  /** The current frame is where the maneuver happens */
+  isNow: boolean;
+  /** Maneuver after this one, previewed when it follows closely */
+  nextManeuver?: RouteManeuver;
+  imperial?: boolean;
+}
+
+// A following maneuver closer than this is previewed as "then ..."
+const THEN_PREVIEW_METERS = 150;
+
+const GuidanceBanner: React.FC<GuidanceBannerProps> = ({
+  maneuver,
+  distanceMeters,
+  isNow,
+  nextManeuver,
+  imperial = false,
+}) => {
+  const showThen = nextManeuver &&
+    nextManeuver.distanceAlongMeters - maneuver.distanceAlongMeters < THEN_PREVIEW_METERS;
+
+  return (
+    <div className={`guidance-banner ${isNow ? 'now' : ''}`}>
+      <span className="guidance-icon">{getManeuverIcon(maneuver)}</span>
+      <div className="guidance-text">
+        <strong>{isNow ? 'Now' : formatDistance(distanceMeters, imperial)}</strong>
+        <span>{maneuver.instruction}</span>
+        {showThen && (
+          <small>
+            Then {getManeuverIcon(nextManeuver!)} {nextManeuver!.instruction}
+          </small>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default GuidanceBanner;
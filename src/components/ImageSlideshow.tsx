@@ -1,63 +1,230 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import MapTile from './MapTile';
+import VideoExportPanel from './VideoExportPanel';
+import DriveExportMenu from './DriveExportMenu';
+import RouteMap from './RouteMap';
+import PanoramaViewer from './PanoramaViewer';
+import CoverageSummary from './CoverageSummary';
+import DriveHud from './DriveHud';
+import GuidanceBanner from './GuidanceBanner';
+import {
+  DriveFrame,
+  Waypoint,
+  WaypointStatus,
+  getFrameCoordinate,
+  findNearestFrameIndex,
+  isSequenceChange,
+} from '../utils/drive';
+import { CoverageGap, analyzeCoverage } from '../utils/coverage';
+import { createFramePrefetcher, getPrefetchWindow } from '../utils/framePrefetch';
+import { RouteManeuver } from '../utils/guidance';
+import {
+  PlaybackMode,
+  SpeedUnit,
+  VirtualSpeed,
+  SPEED_UNIT_LABELS,
+  TIME_COMPRESSION_OPTIONS,
+  getFrameDistances,
+  getDwellTimeMs,
+  getRouteLength,
+  getFrameRoutePositions,
+} from '../utils/playback';
+import { formatCaptureDate } from '../utils/captureDate';
 import './ImageSlideshow.css';
 
 interface ImageSlideshowProps {
-  images: string[];
-  coordinates: [number, number][];
+  frames: DriveFrame[];
+  route?: [number, number][];
+  waypoints?: Waypoint[];
+  waypointStatuses?: WaypointStatus[];
+  /** Rejection summary per waypoint, from image scoring */
+  waypointRejections?: string[];
+  /** Turn-by-turn maneuvers along the route, with their distance from the start */
+  maneuvers?: RouteManeuver[];
   onClose: () => void;
   isLoading?: boolean;
   loadingMessage?: string;
+  initialPlaybackSpeed?: number;
+  /** Starting speed for distance-based playback, typically the travel profile's */
+  initialVirtualSpeedKmh?: number;
+  /** Frame to jump to once it has loaded (e.g. from a shared link) */
+  initialIndex?: number;
+  onIndexChange?: (index: number) => void;
+  onPlaybackSpeedChange?: (speed: number) => void;
+  /** Export the drive as a package; no package button without it */
+  onExportPackage?: (onProgress: (done: number, total: number) => void) => Promise<void>;
 }
 
+type FrameTransition = 'none' | 'crossfade' | 'zoom';
+
+// Frames loaded and decoded ahead of the current one
+const PREFETCH_AHEAD = 5;
+// Transitions take at most this long, and never more than half the time a frame is shown
+const MAX_TRANSITION_MS = 700;
+
 const ImageSlideshow: React.FC<ImageSlideshowProps> = ({ 
-  images, 
-  coordinates, 
+  frames,
+  route = [],
+  waypoints = [],
+  waypointStatuses = [],
+  waypointRejections = [],
+  maneuvers = [],
   onClose, 
   isLoading = false, 
-  loadingMessage = '' 
+  loadingMessage = '',
+  initialPlaybackSpeed = 2000,
+  initialVirtualSpeedKmh = 50,
+  initialIndex = 0,
+  onIndexChange,
+  onPlaybackSpeedChange,
+  onExportPackage
 }) => {
   const [currentIndex, setCurrentIndex] = useState(0);
   const [isPlaying, setIsPlaying] = useState(false); // Start paused until images arrive
-  const [playbackSpeed, setPlaybackSpeed] = useState(2000); // milliseconds per frame - default 0.5 fps
+  const [playbackSpeed, setPlaybackSpeed] = useState(initialPlaybackSpeed); // milliseconds per frame - defaults to the travel profile's pace
+  const [playbackMode, setPlaybackMode] = useState<PlaybackMode>('interval');
+  const [virtualSpeed, setVirtualSpeed] = useState<VirtualSpeed>({
+    value: initialVirtualSpeedKmh,
+    unit: 'kmh',
+    timeCompression: 1,
+  });
   const [showNoImagesMessage, setShowNoImagesMessage] = useState(false);
+  const [showVideoExport, setShowVideoExport] = useState(false);
+  const [showRouteMap, setShowRouteMap] = useState(true);
+  const [showCoverage, setShowCoverage] = useState(false);
+  const [showHud, setShowHud] = useState(true);
+  const [showGuidance, setShowGuidance] = useState(true);
+  const [headingUp, setHeadingUp] = useState(false);
+  const [failedFrames, setFailedFrames] = useState<Set<number>>(() => new Set());
+  const [transition, setTransition] = useState<FrameTransition>('none');
+  // Frame fading out underneath the current one during a transition
+  const [outgoingIndex, setOutgoingIndex] = useState<number | null>(null);
+  // Bumped whenever a prefetched frame settles, so readiness is re-read
+  const [, setPrefetchVersion] = useState(0);
+  const prefetcherRef = useRef(createFramePrefetcher(() => setPrefetchVersion((version) => version + 1)));
+  const [isStalled, setIsStalled] = useState(false);
+  const frameShownAtRef = useRef(Date.now());
+  const lastIndexRef = useRef(0);
   const mountTimeRef = useRef(Date.now());
+  const pendingSeekRef = useRef<number | null>(initialIndex > 0 ? initialIndex : null);
+  const hasAutoStartedRef = useRef(false);
+
+  const images = useMemo(() => frames.map((frame) => frame.thumbUrl), [frames]);
+  const coordinates = useMemo(() => frames.map(getFrameCoordinate), [frames]);
+  const frameDistances = useMemo(() => getFrameDistances(frames, waypoints), [frames, waypoints]);
+  // Milliseconds each frame is shown; in distance mode this follows the gap to the next frame
+  const frameDurations = useMemo(() => {
+    if (playbackMode === 'interval') return frames.map(() => playbackSpeed);
+    const durations = frameDistances.map((meters) => getDwellTimeMs(meters, virtualSpeed));
+    // The last frame has no next one; give it the same time as the frame before
+    if (durations.length > 1) durations[durations.length - 1] = durations[durations.length - 2];
+    return durations;
+  }, [frames, frameDistances, playbackMode, playbackSpeed, virtualSpeed]);
+  const currentDuration = frameDurations[currentIndex] ?? playbackSpeed;
+  const routeLength = useMemo(() => getRouteLength(route), [route]);
+  const framePositions = useMemo(() => getFrameRoutePositions(frames, waypoints), [frames, waypoints]);
+  const currentFrame = frames[currentIndex] as DriveFrame | undefined;
+  // Panoramas are turned to face the route, so their camera angle says nothing about the view
+  const currentHeading = currentFrame
+    ? (currentFrame.isPano ? currentFrame.bearing : currentFrame.computedCompassAngle ?? currentFrame.bearing)
+    : 0;
+  const distanceCovered = Math.min(framePositions[currentIndex] || 0, routeLength);
+
+  // Frame each maneuver happens at: the one closest to it along the route
+  const maneuverFrames = useMemo(() => maneuvers.map((maneuver) => {
+    let best = -1;
+    let bestGap = Infinity;
+    framePositions.forEach((position, index) => {
+      const gap = Math.abs(position - maneuver.distanceAlongMeters);
+      if (gap < bestGap) {
+        bestGap = gap;
+        best = index;
+      }
+    });
+    return best;
+  }), [maneuvers, framePositions]);
+  const upcomingManeuver = maneuverFrames.findIndex((frameIndex) => frameIndex >= currentIndex);
+  const coverage = useMemo(() => analyzeCoverage(waypoints, waypointStatuses), [waypoints, waypointStatuses]);
+
+  // Show the last frame before a gap, so playing on drives straight into it
+  const handleSelectGap = (gap: CoverageGap) => {
+    let target = -1;
+    frames.forEach((frame, index) => {
+      if (frame.waypointIndex < gap.startWaypoint) target = index;
+    });
+    if (target < 0) {
+      target = findNearestFrameIndex(frames, waypoints[gap.startWaypoint].coord);
+    }
+    if (target >= 0) {
+      setCurrentIndex(target);
+    }
+  };
+
+  // Next frame to play: past the end, wait for more while loading, otherwise loop back to start
+  const nextIndex = images.length === 0
+    ? null
+    : currentIndex + 1 < images.length ? currentIndex + 1 : isLoading ? null : 0;
+  const nextReady = nextIndex !== null && prefetcherRef.current.isSettled(images[nextIndex]);
 
-  // Main playback loop - automatically loops through available images
+  // Load and decode the frames coming up, so playback never shows a half-loaded image
   useEffect(() => {
-    if (!isPlaying) return;
+    if (images.length === 0) return;
+    prefetcherRef.current.prefetch(getPrefetchWindow(images, currentIndex, PREFETCH_AHEAD));
+  }, [currentIndex, images]);
 
-    const interval = setInterval(() => {
-      setCurrentIndex((prev) => {
-        const currentLength = images.length;
-        if (currentLength === 0) return prev;
-        
-        const nextIndex = prev + 1;
-        
-        // If we're about to go past the last image
-        if (nextIndex >= currentLength) {
-          // If still loading, stay on current image and wait for more
-          if (isLoading) {
-            return prev; // Stay on current image
-          }
-          // If loading complete, loop back to start
-          return 0;
-        }
-        
-        return nextIndex;
-      });
-    }, playbackSpeed);
+  // Main playback loop - advances once the frame has been shown long enough and the next one is ready;
+  // if it isn't ready by then, playback stalls until it is rather than showing a blank frame
+  useEffect(() => {
+    if (!isPlaying || nextIndex === null) return;
+
+    const elapsed = Date.now() - frameShownAtRef.current;
+    const timeout = setTimeout(() => {
+      if (nextReady) {
+        setCurrentIndex(nextIndex);
+      } else {
+        setIsStalled(true);
+      }
+    }, Math.max(currentDuration - elapsed, 0));
+    return () => clearTimeout(timeout);
+  }, [isPlaying, currentDuration, nextIndex, nextReady]);
+
+  // Keep the previous frame around while the transition into the new one runs
+  const transitionMs = Math.min(MAX_TRANSITION_MS, currentDuration / 2);
+  useEffect(() => {
+    frameShownAtRef.current = Date.now();
+    setIsStalled(false);
+    const previous = lastIndexRef.current;
+    lastIndexRef.current = currentIndex;
+    if (transition === 'none' || previous === currentIndex) return;
 
-    return () => clearInterval(interval);
-  }, [isPlaying, playbackSpeed, isLoading, images.length]); // Added isLoading to know when to pause vs loop
+    setOutgoingIndex(previous);
+    const timeout = setTimeout(() => setOutgoingIndex(null), transitionMs);
+    return () => clearTimeout(timeout);
+  }, [currentIndex]); // eslint-disable-line react-hooks/exhaustive-deps
 
-  // Auto-start playback when first images arrive
+  // Jump to the requested frame as soon as it has been fetched
   useEffect(() => {
-    if (images.length > 0 && !isPlaying) {
+    const target = pendingSeekRef.current;
+    if (target === null) return;
+
+    if (images.length > target) {
+      setCurrentIndex(target);
+      pendingSeekRef.current = null;
+    } else if (!isLoading && images.length > 0) {
+      // The drive ended up shorter than the link expected
+      setCurrentIndex(images.length - 1);
+      pendingSeekRef.current = null;
+    }
+  }, [images.length, isLoading]);
+
+  // Auto-start playback once when first images arrive (after any pending seek)
+  useEffect(() => {
+    if (images.length > 0 && !hasAutoStartedRef.current && pendingSeekRef.current === null) {
       console.log('Auto-starting playback with', images.length, 'images');
+      hasAutoStartedRef.current = true;
       setIsPlaying(true);
     }
-  }, [images.length, isPlaying]);
+  }, [images.length, currentIndex]);
 
   // Keep currentIndex in bounds as new images are added
   useEffect(() => {
@@ -66,6 +233,24 @@ const ImageSlideshow: React.FC<ImageSlideshowProps> = ({
     }
   }, [images.length, currentIndex]);
 
+  // Report position changes, but not the placeholder index while a seek is still pending
+  useEffect(() => {
+    if (pendingSeekRef.current === null) {
+      onIndexChange?.(currentIndex);
+    }
+  }, [currentIndex, onIndexChange]);
+
+  const [linkCopied, setLinkCopied] = useState(false);
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch (error) {
+      console.error('Could not copy link:', error);
+    }
+  };
+
   // Smart "no images found" detection - only show after loading complete AND minimum wait time
   useEffect(() => {
     const MINIMUM_WAIT_TIME = 3000; // Wait at least 3 seconds before showing error
@@ -148,23 +333,111 @@ const ImageSlideshow: React.FC<ImageSlideshowProps> = ({
     <div className="slideshow-container">
       <div className="slideshow-header">
         <h2>Route Preview {isLoading && '(Loading...)'}</h2>
-        <button onClick={onClose} className="close-button">✕</button>
+        <div className="slideshow-header-actions">
+          <button
+            onClick={handleCopyLink}
+            className="header-button"
+            title="Copy a link that reopens this drive at the current frame"
+          >
+            {linkCopied ? '✓ Copied' : '🔗 Copy link'}
+          </button>
+          <DriveExportMenu
+            drive={{ route, waypoints, frames }}
+            disabled={isLoading || frames.length === 0}
+            onExportPackage={onExportPackage}
+          />
+          <button onClick={onClose} className="close-button">✕</button>
+        </div>
       </div>
 
       <div className="slideshow-main">
         <div className="image-container">
           {images.length > 0 ? (
             <>
-              <img
-                src={images[currentIndex]}
-                alt={`Street view ${currentIndex + 1}`}
-                className="slideshow-image"
-              />
+              {outgoingIndex !== null && images[outgoingIndex] && !frames[outgoingIndex].isPano && !frames[currentIndex]?.isPano && (
+                <img
+                  src={images[outgoingIndex]}
+                  alt=""
+                  className={`slideshow-image outgoing ${transition}`}
+                  style={{ animationDuration: `${transitionMs}ms` }}
+                />
+              )}
+              {frames[currentIndex]?.isPano ? (
+                <PanoramaViewer
+                  src={images[currentIndex]}
+                  compassAngle={frames[currentIndex].computedCompassAngle || 0}
+                  initialHeading={frames[currentIndex].bearing}
+                  interactive={!isPlaying}
+                  onError={() => setFailedFrames((prev) => new Set(prev).add(currentIndex))}
+                />
+              ) : (
+                <img
+                  key={currentIndex}
+                  src={images[currentIndex]}
+                  alt={`Street view ${currentIndex + 1}`}
+                  className={`slideshow-image ${outgoingIndex !== null ? `incoming ${transition}` : ''}`}
+                  style={{ animationDuration: `${transitionMs}ms` }}
+                  onError={() => setFailedFrames((prev) => new Set(prev).add(currentIndex))}
+                />
+              )}
+              {isStalled && isPlaying && !nextReady && (
+                <div className="buffering-indicator">Buffering next frame…</div>
+              )}
+              {showRouteMap && route.length > 1 && (
+                <RouteMap
+                  route={route}
+                  waypoints={waypoints}
+                  waypointStatuses={waypointStatuses}
+                  waypointRejections={waypointRejections}
+                  frames={frames}
+                  currentIndex={currentIndex}
+                  failedFrames={failedFrames}
+                  gaps={coverage.gaps}
+                  onSeek={setCurrentIndex}
+                />
+              )}
+              {showCoverage && (
+                <CoverageSummary
+                  report={coverage}
+                  isLoading={isLoading}
+                  onSelectGap={handleSelectGap}
+                  onClose={() => setShowCoverage(false)}
+                />
+              )}
+              {showVideoExport && (
+                <VideoExportPanel
+                  images={images}
+                  coordinates={coordinates}
+                  playbackSpeed={playbackSpeed}
+                  frameDurations={playbackMode === 'distance' ? frameDurations : undefined}
+                  onClose={() => setShowVideoExport(false)}
+                />
+              )}
+              {showGuidance && upcomingManeuver >= 0 && (
+                <GuidanceBanner
+                  maneuver={maneuvers[upcomingManeuver]}
+                  distanceMeters={Math.max(maneuvers[upcomingManeuver].distanceAlongMeters - distanceCovered, 0)}
+                  isNow={maneuverFrames[upcomingManeuver] === currentIndex}
+                  nextManeuver={maneuvers[upcomingManeuver + 1]}
+                  imperial={virtualSpeed.unit === 'mph'}
+                />
+              )}
+              {showHud && currentFrame && (
+                <DriveHud
+                  heading={currentHeading}
+                  distanceCoveredMeters={distanceCovered}
+                  distanceRemainingMeters={Math.max(routeLength - distanceCovered, 0)}
+                  speed={virtualSpeed}
+                />
+              )}
               {/* Show map tile if we have coordinates for this image */}
               {coordinates && coordinates[currentIndex] && (
                 <MapTile
                   latitude={coordinates[currentIndex][0]}
                   longitude={coordinates[currentIndex][1]}
+                  heading={currentHeading}
+                  headingUp={headingUp}
+                  onToggleHeadingUp={() => setHeadingUp(!headingUp)}
                 />
               )}
             </>
@@ -188,6 +461,53 @@ const ImageSlideshow: React.FC<ImageSlideshowProps> = ({
           <button onClick={handleNext} className="control-btn" disabled={images.length === 0}>
             Next ⏭
           </button>
+
+          <button
+            onClick={() => setShowHud(!showHud)}
+            className={`control-btn ${showHud ? 'active' : ''}`}
+            disabled={images.length === 0}
+          >
+            🧭 HUD
+          </button>
+
+          <button
+            onClick={() => setShowGuidance(!showGuidance)}
+            className={`control-btn ${showGuidance ? 'active' : ''}`}
+            disabled={maneuvers.length === 0}
+            title="Turn-by-turn instructions (not available for imported tracks)"
+          >
+            ↱ Guidance
+          </button>
+
+          <button
+            onClick={() => setShowRouteMap(!showRouteMap)}
+            className={`control-btn ${showRouteMap ? 'active' : ''}`}
+            disabled={route.length < 2}
+          >
+            🗺 Route map
+          </button>
+
+          <button
+            onClick={() => {
+              setShowCoverage(!showCoverage);
+              setShowVideoExport(false);
+            }}
+            className={`control-btn ${showCoverage ? 'active' : ''}`}
+            disabled={waypoints.length === 0}
+          >
+            📊 Coverage {coverage.searchedMeters > 0 && `${coverage.coveragePercent.toFixed(0)}%`}
+          </button>
+
+          <button
+            onClick={() => {
+              setShowVideoExport(!showVideoExport);
+              setShowCoverage(false);
+            }}
+            className={`control-btn ${showVideoExport ? 'active' : ''}`}
+            disabled={images.length === 0}
+          >
+            🎬 Export video
+          </button>
         </div>
 
         <div className="slideshow-info">
@@ -196,21 +516,105 @@ const ImageSlideshow: React.FC<ImageSlideshowProps> = ({
             {isLoading && currentIndex === images.length - 1 && ' (waiting for more...)'}
             {isLoading && currentIndex < images.length - 1 && ' (loading more...)'}
           </span>
+
+          {frames[currentIndex]?.lowConfidence && (
+            <span className="low-confidence" title="Found only after widening the search, so it may be off the route or facing another way">
+              ⚠ Low confidence
+            </span>
+          )}
+
+          {isSequenceChange(frames, currentIndex) && (
+            <span className="sequence-change" title="This image comes from a different capture sequence than the previous one">
+              🔀 New sequence
+            </span>
+          )}
+
+          {frames[currentIndex]?.capturedAt && (
+            <span className="capture-date" title="Capture date of this image">
+              📅 {formatCaptureDate(frames[currentIndex].capturedAt as number)}
+            </span>
+          )}
           
           <div className="speed-control">
-            <label htmlFor="speed">Speed:</label>
+            <label htmlFor="transition">Transition:</label>
             <select
-              id="speed"
-              value={playbackSpeed}
-              onChange={(e) => setPlaybackSpeed(Number(e.target.value))}
+              id="transition"
+              value={transition}
+              onChange={(e) => setTransition(e.target.value as FrameTransition)}
             >
-              <option value="10000">Very Slow (0.1 fps)</option>
-              <option value="2000">Slow (0.5 fps)</option>
-              <option value="1000">Medium (1 fps)</option>
-              <option value="667">Fast (1.5 fps)</option>
-              <option value="500">Very Fast (2 fps)</option>
+              <option value="none">Cut</option>
+              <option value="crossfade">Crossfade</option>
+              <option value="zoom">Zoom blend</option>
             </select>
           </div>
+
+          <div className="speed-control">
+            <label htmlFor="playback-mode">Pace:</label>
+            <select
+              id="playback-mode"
+              value={playbackMode}
+              onChange={(e) => setPlaybackMode(e.target.value as PlaybackMode)}
+              title="Frame rate shows every frame for the same time; travel speed follows the distance between frames"
+            >
+              <option value="interval">Frame rate</option>
+              <option value="distance">Travel speed</option>
+            </select>
+          </div>
+
+          {playbackMode === 'interval' ? (
+            <div className="speed-control">
+              <label htmlFor="speed">Speed:</label>
+              <select
+                id="speed"
+                value={playbackSpeed}
+                onChange={(e) => {
+                  const speed = Number(e.target.value);
+                  setPlaybackSpeed(speed);
+                  onPlaybackSpeedChange?.(speed);
+                }}
+              >
+                <option value="10000">Very Slow (0.1 fps)</option>
+                <option value="2000">Slow (0.5 fps)</option>
+                <option value="1000">Medium (1 fps)</option>
+                <option value="667">Fast (1.5 fps)</option>
+                <option value="500">Very Fast (2 fps)</option>
+              </select>
+            </div>
+          ) : (
+            <div className="speed-control">
+              <label htmlFor="virtual-speed">Speed:</label>
+              <input
+                id="virtual-speed"
+                type="number"
+                min={1}
+                max={300}
+                value={virtualSpeed.value}
+                onChange={(e) => {
+                  const value = Number(e.target.value);
+                  if (value > 0) setVirtualSpeed((prev) => ({ ...prev, value }));
+                }}
+              />
+              <select
+                aria-label="Speed unit"
+                value={virtualSpeed.unit}
+                onChange={(e) => setVirtualSpeed((prev) => ({ ...prev, unit: e.target.value as SpeedUnit }))}
+              >
+                {(Object.keys(SPEED_UNIT_LABELS) as SpeedUnit[]).map((unit) => (
+                  <option key={unit} value={unit}>{SPEED_UNIT_LABELS[unit]}</option>
+                ))}
+              </select>
+              <select
+                aria-label="Time compression"
+                title="Play faster than real time"
+                value={virtualSpeed.timeCompression}
+                onChange={(e) => setVirtualSpeed((prev) => ({ ...prev, timeCompression: Number(e.target.value) }))}
+              >
+                {TIME_COMPRESSION_OPTIONS.map((factor) => (
+                  <option key={factor} value={factor}>{factor}×</option>
+                ))}
+              </select>
+            </div>
+          )}
         </div>
       </div>
 
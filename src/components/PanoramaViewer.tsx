@@ -0,0 +1,118 @@
+import React, { useState, useRef, useEffect } from 'react';
+import './PanoramaViewer.css';
+
+interface PanoramaViewerProps {
+  /** Equirectangular (2:1) image URL */
+  src: string;
+  /** Compass angle of the image centre */
+  compassAngle: number;
+  /** Heading to face when the frame is shown, e.g. the route bearing */
+  initialHeading: number;
+  /** Looking around is only possible while playback is paused */
+  interactive: boolean;
+  onError?: () => void;
+}
+
+// Horizontal field of view shown in the viewport
+const FIELD_OF_VIEW = 100;
+const MAX_PITCH = 60;
+
+/**
+ * Lightweight 360° viewer: pans a repeating equirectangular image behind the viewport
+ * rather than reprojecting it, which is close enough at this field of view.
+ */
+const PanoramaViewer: React.FC<PanoramaViewerProps> = ({
+  src,
+  compassAngle,
+  initialHeading,
+  interactive,
+  onError,
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const [heading, setHeading] = useState(initialHeading);
+  const [pitch, setPitch] = useState(0);
+  const dragRef = useRef<{ x: number; y: number; heading: number; pitch: number } | null>(null);
+
+  // Face the route again whenever the frame changes or playback resumes
+  useEffect(() => {
+    setHeading(initialHeading);
+    setPitch(0);
+  }, [src, initialHeading, interactive]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const updateSize = () => setSize({ width: container.clientWidth, height: container.clientHeight });
+    updateSize();
+    window.addEventListener('resize', updateSize);
+    return () => window.removeEventListener('resize', updateSize);
+  }, []);
+
+  // Report broken images the same way a plain <img> would
+  const onErrorRef = useRef(onError);
+  onErrorRef.current = onError;
+  useEffect(() => {
+    const probe = new Image();
+    probe.onerror = () => onErrorRef.current?.();
+    probe.src = src;
+    return () => {
+      probe.onerror = null;
+    };
+  }, [src]);
+
+  const pixelsPerDegree = size.width / FIELD_OF_VIEW;
+  const imageWidth = 360 * pixelsPerDegree;
+  const imageHeight = imageWidth / 2;
+
+  // Image x of the viewed heading, measured from the image's left edge (centre = compass angle)
+  const relativeHeading = ((heading - compassAngle) % 360 + 540) % 360 - 180;
+  const headingX = imageWidth / 2 + relativeHeading * pixelsPerDegree;
+  const horizonY = imageHeight / 2 - pitch * pixelsPerDegree;
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (!interactive) return;
+    dragRef.current = { x: e.clientX, y: e.clientY, heading, pitch };
+    (e.target as Element).setPointerCapture?.(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag || pixelsPerDegree === 0) return;
+
+    // Dragging moves the image with the pointer, so the view turns the opposite way
+    setHeading(drag.heading - (e.clientX - drag.x) / pixelsPerDegree);
+    setPitch(Math.max(-MAX_PITCH, Math.min(MAX_PITCH, drag.pitch + (e.clientY - drag.y) / pixelsPerDegree)));
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const displayHeading = ((heading % 360) + 360) % 360;
+
+  return (
+    <div
+      ref={containerRef}
+      className={`panorama-viewer ${interactive ? 'interactive' : ''}`}
+      style={{
+        backgroundImage: `url("${src}")`,
+        backgroundSize: `${imageWidth}px ${imageHeight}px`,
+        backgroundPosition: `${size.width / 2 - headingX}px ${size.height / 2 - horizonY}px`,
+      }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      role="img"
+      aria-label="360° panorama"
+    >
+      <div className="panorama-badge">
+        360° · {Math.round(displayHeading)}°{interactive ? ' · drag to look around' : ''}
+      </div>
+    </div>
+  );
+};
+
+export default PanoramaViewer;
@@ -0,0 +1,143 @@
+import React, { useMemo, useState } from 'react';
+import type { RouteOption } from '../services/drivePipeline';
+import { formatDistance } from '../utils/coverage';
+import { formatDuration } from '../utils/playback';
+import './RouteChooser.css';
+
+interface RouteChooserProps {
+  options: RouteOption[];
+  onSelect: (routeIndex: number) => void;
+  onBack: () => void;
+}
+
+const PREVIEW_WIDTH = 600;
+const PREVIEW_HEIGHT = 260;
+const PREVIEW_PADDING = 16;
+const ROUTE_COLORS = ['#3498db', '#9b59b6', '#e67e22', '#1abc9c'];
+
+const coverageClass = (percent: number): string => {
+  if (percent >= 80) return 'good';
+  if (percent >= 50) return 'fair';
+  return 'poor';
+};
+
+// Index of the option with the lowest (or, with sign -1, highest) value; the first wins ties
+const indexOfBest = (options: RouteOption[], value: (option: RouteOption) => number, sign: number = 1): number =>
+  options.reduce((best, option, index) => (sign * value(option) < sign * value(options[best]) ? index : best), 0);
+
+const RouteChooser: React.FC<RouteChooserProps> = ({ options, onSelect, onBack }) => {
+  const bestCoverage = indexOfBest(options, (option) => option.coverageScore, -1);
+  const shortest = indexOfBest(options, (option) => option.route.distanceMeters);
+  const fastest = indexOfBest(options, (option) => option.route.durationSeconds);
+  // The point of choosing is usually the imagery, so that one is preselected
+  const [selected, setSelected] = useState(bestCoverage);
+
+  // Project every route into the preview box (equirectangular, scaled by latitude)
+  const paths = useMemo(() => {
+    const all = options.flatMap((option) => option.route.coordinates);
+    if (all.length === 0) return options.map(() => '');
+
+    const lats = all.map(([lat]) => lat);
+    const lons = all.map(([, lon]) => lon);
+    const minLat = Math.min(...lats);
+    const maxLat = Math.max(...lats);
+    const minLon = Math.min(...lons);
+    const maxLon = Math.max(...lons);
+    const lonScale = Math.cos(((minLat + maxLat) / 2) * Math.PI / 180);
+    const spanX = Math.max((maxLon - minLon) * lonScale, 1e-9);
+    const spanY = Math.max(maxLat - minLat, 1e-9);
+    const scale = Math.min(
+      (PREVIEW_WIDTH - 2 * PREVIEW_PADDING) / spanX,
+      (PREVIEW_HEIGHT - 2 * PREVIEW_PADDING) / spanY
+    );
+    const offsetX = (PREVIEW_WIDTH - spanX * scale) / 2;
+    const offsetY = (PREVIEW_HEIGHT - spanY * scale) / 2;
+
+    return options.map((option) => option.route.coordinates
+      .map(([lat, lon], index) => {
+        const x = offsetX + (lon - minLon) * lonScale * scale;
+        const y = offsetY + (maxLat - lat) * scale;
+        return `${index === 0 ? 'M' : 'L'}${x.toFixed(1)},${y.toFixed(1)}`;
+      })
+      .join(' '));
+  }, [options]);
+
+  // Draw the selected route last so it sits on top
+  const drawOrder = options.map((_, index) => index).filter((index) => index !== selected).concat(selected);
+
+  return (
+    <div className="route-chooser">
+      <h2>Choose a route</h2>
+      <p className="route-chooser-note">
+        Coverage is estimated from a few sample waypoints per route; the drive itself searches all of them.
+      </p>
+
+      <svg
+        className="route-chooser-preview"
+        viewBox={`0 0 ${PREVIEW_WIDTH} ${PREVIEW_HEIGHT}`}
+        role="img"
+        aria-label="Route alternatives"
+      >
+        {drawOrder.map((index) => (
+          <path
+            key={index}
+            d={paths[index]}
+            stroke={ROUTE_COLORS[index % ROUTE_COLORS.length]}
+            strokeWidth={index === selected ? 5 : 3}
+            strokeOpacity={index === selected ? 1 : 0.45}
+            fill="none"
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            onClick={() => setSelected(index)}
+          />
+        ))}
+      </svg>
+
+      <ul className="route-options" role="radiogroup" aria-label="Routes">
+        {options.map((option, index) => (
+          <li key={index}>
+            <button
+              type="button"
+              role="radio"
+              aria-checked={index === selected}
+              className={`route-option ${index === selected ? 'selected' : ''}`}
+              onClick={() => setSelected(index)}
+            >
+              <span
+                className="route-option-swatch"
+                style={{ background: ROUTE_COLORS[index % ROUTE_COLORS.length] }}
+              />
+              <span className="route-option-title">
+                Route {index + 1}
+                {index === bestCoverage && <span className="route-option-badge">Best imagery</span>}
+                {index === fastest && <span className="route-option-badge">Fastest</span>}
+                {index === shortest && <span className="route-option-badge">Shortest</span>}
+              </span>
+              <span className="route-option-stats">
+                {formatDistance(option.route.distanceMeters)} · {formatDuration(option.route.durationSeconds)}
+              </span>
+              <span className="route-option-coverage" title={`${option.sampledWaypoints} waypoints sampled`}>
+                <span
+                  className={`route-option-coverage-fill ${coverageClass(option.coverageScore)}`}
+                  style={{ width: `${option.coverageScore}%` }}
+                />
+                <span className="route-option-coverage-label">{option.coverageScore.toFixed(0)}% coverage</span>
+              </span>
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      <div className="route-chooser-actions">
+        <button type="button" className="route-chooser-back" onClick={onBack}>
+          ← Back
+        </button>
+        <button type="button" className="route-chooser-start" onClick={() => onSelect(selected)}>
+          Drive route {selected + 1}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default RouteChooser;
@@ -1,32 +1,177 @@
-import React, { useState } from 'react';
+import React, { useState, useRef } from 'react';
+import { TravelProfile, TRAVEL_PROFILES, DEFAULT_PROFILE } from '../utils/profiles';
+import { ImportedTrack, parseTrackFile } from '../utils/trackImport';
+import { CaptureDateFilter, DEFAULT_CAPTURE_FILTER, MONTH_LABELS, SEASONS } from '../utils/captureDate';
 import './RouteForm.css';
 
 export interface RouteFormData {
-  origin: string;
-  destination: string;
+  /** Ordered stops: first is the origin, last is the destination */
+  stops: string[];
+  profile: TravelProfile;
+  /** Distance between sampled waypoints along the route */
+  spacingMeters: number;
+  /** Keep 360° panoramas and show them in the panorama viewer */
+  includePanoramas: boolean;
+  /** Capture date range, months and recency preference for image selection */
+  captureFilter: CaptureDateFilter;
+  /** Uploaded track used as the route instead of geocoding and routing the stops */
+  track?: ImportedTrack;
 }
 
+type RouteSource = 'stops' | 'track';
+
+interface StopEntry {
+  id: number;
+  value: string;
+}
+
+const MIN_STOPS = 2;
+const MAX_STOPS = 10;
+
 interface RouteFormProps {
   onSubmit: (data: RouteFormData) => void;
   isLoading: boolean;
+  onOpenSettings?: () => void;
+  onOpenLibrary?: () => void;
+  /** Values to prefill, e.g. from the previous drive or a shared link */
+  initialData?: RouteFormData | null;
 }
 
-const RouteForm: React.FC<RouteFormProps> = ({ onSubmit, isLoading }) => {
-  const [origin, setOrigin] = useState('');
-  const [destination, setDestination] = useState('');
+function createInitialStops(initialData?: RouteFormData | null): StopEntry[] {
+  const values = initialData && initialData.stops.length >= MIN_STOPS ? initialData.stops : ['', ''];
+  return values.map((value, id) => ({ id, value }));
+}
+
+const RouteForm: React.FC<RouteFormProps> = ({ onSubmit, isLoading, onOpenSettings, onOpenLibrary, initialData }) => {
+  const [stops, setStops] = useState<StopEntry[]>(() => createInitialStops(initialData));
+  const [profile, setProfile] = useState<TravelProfile>(initialData?.profile || DEFAULT_PROFILE);
+  const [spacingMeters, setSpacingMeters] = useState(
+    initialData?.spacingMeters || TRAVEL_PROFILES[initialData?.profile || DEFAULT_PROFILE].waypointSpacingMeters
+  );
+  const [includePanoramas, setIncludePanoramas] = useState(initialData?.includePanoramas || false);
+  const [captureFilter, setCaptureFilter] = useState<CaptureDateFilter>(
+    initialData?.captureFilter || DEFAULT_CAPTURE_FILTER
+  );
+  const [routeSource, setRouteSource] = useState<RouteSource>(initialData?.track ? 'track' : 'stops');
+  const [track, setTrack] = useState<ImportedTrack | null>(initialData?.track || null);
+  const [trackError, setTrackError] = useState('');
   const [showTooltip, setShowTooltip] = useState(false);
+  const nextStopIdRef = useRef(stops.length);
+  const dragIndexRef = useRef<number | null>(null);
+  const [dragOverIndex, setDragOverIndex] = useState<number | null>(null);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
 
+    if (routeSource === 'track') {
+      if (!track) {
+        setTrackError('Choose a GPX, GeoJSON or KML file first');
+        return;
+      }
+      onSubmit({ stops: [], profile, spacingMeters, includePanoramas, captureFilter, track });
+      return;
+    }
+
     const formData: RouteFormData = {
-      origin,
-      destination,
+      stops: stops.map((stop) => stop.value),
+      profile,
+      spacingMeters,
+      includePanoramas,
+      captureFilter,
     };
 
     onSubmit(formData);
   };
 
+  const updateCaptureFilter = (changes: Partial<CaptureDateFilter>) => {
+    setCaptureFilter((prev) => ({ ...prev, ...changes }));
+  };
+
+  const toggleMonth = (month: number) => {
+    setCaptureFilter((prev) => ({
+      ...prev,
+      months: prev.months.includes(month)
+        ? prev.months.filter((m) => m !== month)
+        : [...prev.months, month].sort((a, b) => a - b),
+    }));
+  };
+
+  const handleTrackFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    setTrack(null);
+    setTrackError('');
+    if (!file) return;
+
+    try {
+      setTrack(await parseTrackFile(file));
+    } catch (error) {
+      console.error('Could not read track file:', error);
+      setTrackError(error instanceof Error ? error.message : 'Could not read track file');
+    }
+  };
+
+  const updateStop = (index: number, value: string) => {
+    setStops((prev) => prev.map((stop, i) => (i === index ? { ...stop, value } : stop)));
+  };
+
+  // New stops are inserted just before the destination
+  const addStop = () => {
+    setStops((prev) => {
+      if (prev.length >= MAX_STOPS) return prev;
+      const newStop = { id: nextStopIdRef.current++, value: '' };
+      return [...prev.slice(0, -1), newStop, prev[prev.length - 1]];
+    });
+  };
+
+  const removeStop = (index: number) => {
+    setStops((prev) => (prev.length <= MIN_STOPS ? prev : prev.filter((_, i) => i !== index)));
+  };
+
+  const moveStop = (from: number, to: number) => {
+    setStops((prev) => {
+      if (to < 0 || to >= prev.length || from === to) return prev;
+      const reordered = [...prev];
+      const [moved] = reordered.splice(from, 1);
+      reordered.splice(to, 0, moved);
+      return reordered;
+    });
+  };
+
+  const handleDragStart = (index: number) => {
+    dragIndexRef.current = index;
+  };
+
+  const handleDragOver = (e: React.DragEvent, index: number) => {
+    e.preventDefault();
+    setDragOverIndex(index);
+  };
+
+  const handleDrop = (e: React.DragEvent, index: number) => {
+    e.preventDefault();
+    if (dragIndexRef.current !== null) {
+      moveStop(dragIndexRef.current, index);
+    }
+    dragIndexRef.current = null;
+    setDragOverIndex(null);
+  };
+
+  const handleDragEnd = () => {
+    dragIndexRef.current = null;
+    setDragOverIndex(null);
+  };
+
+  const getStopLabel = (index: number): string => {
+    if (index === 0) return 'Origin';
+    if (index === stops.length - 1) return 'Destination';
+    return `Stop ${index}`;
+  };
+
+  const getStopPlaceholder = (index: number): string => {
+    if (index === 0) return 'Enter starting address';
+    if (index === stops.length - 1) return 'Enter destination address';
+    return 'Enter intermediate stop';
+  };
+
   return (
     <div className="route-form-container">
       <div className="header-with-tooltip">
@@ -39,6 +184,26 @@ const RouteForm: React.FC<RouteFormProps> = ({ onSubmit, isLoading }) => {
         >
           <span className="question-icon">?</span>
         </button>
+        {onOpenSettings && (
+          <button
+            className="tooltip-trigger"
+            onClick={onOpenSettings}
+            type="button"
+            aria-label="Service settings"
+          >
+            <span className="question-icon">⚙</span>
+          </button>
+        )}
+        {onOpenLibrary && (
+          <button
+            className="tooltip-trigger"
+            onClick={onOpenLibrary}
+            type="button"
+            aria-label="Saved drives"
+          >
+            <span className="question-icon">☰</span>
+          </button>
+        )}
         
         {showTooltip && (
           <>
@@ -56,7 +221,10 @@ const RouteForm: React.FC<RouteFormProps> = ({ onSubmit, isLoading }) => {
               </button>
               <h3>How it works</h3>
               <ul>
-                <li>Enter origin and destination addresses</li>
+                <li>Enter origin and destination addresses, and optionally stops in between</li>
+                <li>Drag stops (or use the arrows) to change the order they are visited in</li>
+                <li>Pick driving, cycling or walking to route along roads, bike lanes or footpaths</li>
+                <li>Or upload a GPX, GeoJSON or KML track to follow an exact path</li>
                 <li>The app fetches street-level images along the route from Mapillary</li>
                 <li>View images as an interactive slideshow with continuous playback</li>
               </ul>
@@ -73,33 +241,249 @@ const RouteForm: React.FC<RouteFormProps> = ({ onSubmit, isLoading }) => {
       
       <form onSubmit={handleSubmit} className="route-form">
         <div className="form-group">
-          <label htmlFor="origin">Origin</label>
-          <input
-            type="text"
-            id="origin"
-            value={origin}
-            onChange={(e) => setOrigin(e.target.value)}
-            placeholder="Enter starting address"
-            required
-            disabled={isLoading}
-          />
-          <small>Example: "San Diego, CA"</small>
+          <label>Travel mode</label>
+          <div className="profile-selector" role="radiogroup" aria-label="Travel mode">
+            {(Object.keys(TRAVEL_PROFILES) as TravelProfile[]).map((key) => (
+              <button
+                key={key}
+                type="button"
+                role="radio"
+                aria-checked={profile === key}
+                className={`profile-option ${profile === key ? 'selected' : ''}`}
+                onClick={() => {
+                  setProfile(key);
+                  setSpacingMeters(TRAVEL_PROFILES[key].waypointSpacingMeters);
+                }}
+                disabled={isLoading}
+              >
+                <span className="profile-icon">{TRAVEL_PROFILES[key].icon}</span>
+                {TRAVEL_PROFILES[key].label}
+              </button>
+            ))}
+          </div>
+          <small>Favouring imagery {TRAVEL_PROFILES[profile].captureHint}</small>
         </div>
 
         <div className="form-group">
-          <label htmlFor="destination">Destination</label>
+          <label htmlFor="spacing">Waypoint spacing (meters)</label>
           <input
-            type="text"
-            id="destination"
-            value={destination}
-            onChange={(e) => setDestination(e.target.value)}
-            placeholder="Enter destination address"
+            type="number"
+            id="spacing"
+            min={5}
+            max={500}
+            value={spacingMeters}
+            onChange={(e) => setSpacingMeters(Number(e.target.value))}
             required
             disabled={isLoading}
           />
-          <small>Example: "Los Angeles, CA"</small>
+          <small>Distance between sampled points along the route. Smaller values give denser drives but take longer to load.</small>
+        </div>
+
+        <div className="form-group checkbox-group">
+          <label htmlFor="include-panoramas">
+            <input
+              type="checkbox"
+              id="include-panoramas"
+              checked={includePanoramas}
+              onChange={(e) => setIncludePanoramas(e.target.checked)}
+              disabled={isLoading}
+            />
+            Panorama mode: include 360° images
+          </label>
+          <small>Useful where the only coverage is panoramic. Pause playback to look around.</small>
+        </div>
+
+        <div className="form-group">
+          <label>Capture date</label>
+          <div className="date-range">
+            <input
+              type="date"
+              aria-label="Captured from"
+              value={captureFilter.from || ''}
+              max={captureFilter.to}
+              onChange={(e) => updateCaptureFilter({ from: e.target.value || undefined })}
+              disabled={isLoading}
+            />
+            <span>to</span>
+            <input
+              type="date"
+              aria-label="Captured until"
+              value={captureFilter.to || ''}
+              min={captureFilter.from}
+              onChange={(e) => updateCaptureFilter({ to: e.target.value || undefined })}
+              disabled={isLoading}
+            />
+          </div>
+          <div className="month-chips" role="group" aria-label="Capture months">
+            {MONTH_LABELS.map((label, index) => (
+              <button
+                key={label}
+                type="button"
+                className={`month-chip ${captureFilter.months.includes(index + 1) ? 'selected' : ''}`}
+                aria-pressed={captureFilter.months.includes(index + 1)}
+                onClick={() => toggleMonth(index + 1)}
+                disabled={isLoading}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <div className="month-chips">
+            <button
+              type="button"
+              className="month-chip season"
+              onClick={() => updateCaptureFilter({ months: [] })}
+              disabled={isLoading}
+            >
+              Any month
+            </button>
+            {Object.entries(SEASONS).map(([season, months]) => (
+              <button
+                key={season}
+                type="button"
+                className="month-chip season"
+                onClick={() => updateCaptureFilter({ months: [...months].sort((a, b) => a - b) })}
+                disabled={isLoading}
+              >
+                {season}
+              </button>
+            ))}
+          </div>
+          <div className="checkbox-group">
+            <label htmlFor="prefer-newest">
+              <input
+                type="checkbox"
+                id="prefer-newest"
+                checked={captureFilter.preferNewest}
+                onChange={(e) => updateCaptureFilter({ preferNewest: e.target.checked })}
+                disabled={isLoading}
+              />
+              Prefer the most recent imagery
+            </label>
+          </div>
+          <small>Avoid mixing old and new imagery of roads that have since changed. Seasons use northern hemisphere months.</small>
         </div>
 
+        <div className="form-group">
+          <label>Route source</label>
+          <div className="profile-selector" role="radiogroup" aria-label="Route source">
+            <button
+              type="button"
+              role="radio"
+              aria-checked={routeSource === 'stops'}
+              className={`profile-option ${routeSource === 'stops' ? 'selected' : ''}`}
+              onClick={() => setRouteSource('stops')}
+              disabled={isLoading}
+            >
+              📍 Addresses
+            </button>
+            <button
+              type="button"
+              role="radio"
+              aria-checked={routeSource === 'track'}
+              className={`profile-option ${routeSource === 'track' ? 'selected' : ''}`}
+              onClick={() => setRouteSource('track')}
+              disabled={isLoading}
+            >
+              🗺️ Track file
+            </button>
+          </div>
+        </div>
+
+        {routeSource === 'stops' ? (
+          <>
+            <div className="stops-list">
+              {stops.map((stop, index) => (
+                <div
+                  key={stop.id}
+                  className={`form-group stop-item ${dragOverIndex === index ? 'drag-over' : ''}`}
+                  draggable={!isLoading}
+                  onDragStart={() => handleDragStart(index)}
+                  onDragOver={(e) => handleDragOver(e, index)}
+                  onDrop={(e) => handleDrop(e, index)}
+                  onDragEnd={handleDragEnd}
+                >
+                  <label htmlFor={`stop-${stop.id}`}>
+                    <span className="drag-handle" aria-hidden="true">⋮⋮</span>
+                    {getStopLabel(index)}
+                  </label>
+                  <div className="stop-row">
+                    <input
+                      type="text"
+                      id={`stop-${stop.id}`}
+                      value={stop.value}
+                      onChange={(e) => updateStop(index, e.target.value)}
+                      placeholder={getStopPlaceholder(index)}
+                      required
+                      disabled={isLoading}
+                    />
+                    <div className="stop-actions">
+                      <button
+                        type="button"
+                        className="stop-action"
+                        onClick={() => moveStop(index, index - 1)}
+                        disabled={isLoading || index === 0}
+                        aria-label={`Move ${getStopLabel(index)} up`}
+                      >
+                        ↑
+                      </button>
+                      <button
+                        type="button"
+                        className="stop-action"
+                        onClick={() => moveStop(index, index + 1)}
+                        disabled={isLoading || index === stops.length - 1}
+                        aria-label={`Move ${getStopLabel(index)} down`}
+                      >
+                        ↓
+                      </button>
+                      <button
+                        type="button"
+                        className="stop-action remove"
+                        onClick={() => removeStop(index)}
+                        disabled={isLoading || stops.length <= MIN_STOPS}
+                        aria-label={`Remove ${getStopLabel(index)}`}
+                      >
+                        ✕
+                      </button>
+                    </div>
+                  </div>
+                  {index === 0 && <small>Example: "San Diego, CA"</small>}
+                  {index === stops.length - 1 && <small>Example: "Los Angeles, CA"</small>}
+                </div>
+              ))}
+            </div>
+
+            <button
+              type="button"
+              className="add-stop-button"
+              onClick={addStop}
+              disabled={isLoading || stops.length >= MAX_STOPS}
+            >
+              + Add stop
+            </button>
+          </>
+        ) : (
+          <div className="form-group">
+            <label htmlFor="track-file">Track file</label>
+            <input
+              type="file"
+              id="track-file"
+              accept=".gpx,.kml,.geojson,.json,application/gpx+xml,application/vnd.google-earth.kml+xml,application/geo+json"
+              onChange={handleTrackFileChange}
+              disabled={isLoading}
+              className="track-file-input"
+            />
+            {track && (
+              <small>
+                Loaded "{track.name}" with {track.coordinates.length} points. Geocoding and routing are
+                skipped; the drive follows this path exactly.
+              </small>
+            )}
+            {trackError && <small className="track-error">{trackError}</small>}
+            {!track && !trackError && <small>GPX track, GeoJSON LineString or KML path</small>}
+          </div>
+        )}
+
         <button type="submit" className={`submit-button ${isLoading ? 'loading' : ''}`} disabled={isLoading}>
           <span className="button-text">{isLoading ? 'Generating...' : 'Generate Route Preview'}</span>
         </button>
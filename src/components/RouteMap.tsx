@@ -0,0 +1,287 @@
+import React, { useState, useRef, useMemo, useEffect } from 'react';
+import { getServiceConfig, buildTileUrl } from '../services/config';
+import { TILE_SIZE, latLonToWorldPixel, worldPixelToLatLon, fitBounds } from '../utils/mapTiles';
+import {
+  DriveFrame,
+  Waypoint,
+  WaypointStatus,
+  getFrameCoordinate,
+  findNearestFrameIndex,
+  isSequenceChange,
+} from '../utils/drive';
+import { CoverageGap, formatDistance } from '../utils/coverage';
+import './RouteMap.css';
+
+interface RouteMapProps {
+  route: [number, number][];
+  waypoints: Waypoint[];
+  waypointStatuses: WaypointStatus[];
+  /** Why each waypoint's candidate images were rejected, shown on hover */
+  waypointRejections?: string[];
+  frames: DriveFrame[];
+  currentIndex: number;
+  /** Frames whose image failed to load in the browser */
+  failedFrames?: Set<number>;
+  /** Stretches without imagery, drawn over the route line */
+  gaps?: CoverageGap[];
+  onSeek: (frameIndex: number) => void;
+  width?: number;
+  height?: number;
+}
+
+const MIN_ZOOM = 3;
+const MAX_ZOOM = 19;
+// Pointer movement (px) below which a press counts as a click rather than a pan
+const CLICK_TOLERANCE = 4;
+
+const STATUS_COLORS: Record<WaypointStatus, string> = {
+  found: '#2ecc71',
+  duplicate: '#95a5a6',
+  missing: '#e74c3c',
+  pending: 'rgba(255, 255, 255, 0.6)',
+};
+// Frames found only by widening the search
+const LOW_CONFIDENCE_COLOR = '#f1c40f';
+
+const RouteMap: React.FC<RouteMapProps> = ({
+  route,
+  waypoints,
+  waypointStatuses,
+  waypointRejections = [],
+  frames,
+  currentIndex,
+  failedFrames,
+  gaps = [],
+  onSeek,
+  width = 420,
+  height = 320,
+}) => {
+  const initialView = useMemo(() => fitBounds(route, width, height), []); // eslint-disable-line react-hooks/exhaustive-deps
+  const [center, setCenter] = useState<[number, number]>(initialView.center);
+  const [zoom, setZoom] = useState(initialView.zoom);
+  const [followPosition, setFollowPosition] = useState(false);
+  const dragRef = useRef<{ startX: number; startY: number; startCenter: { x: number; y: number }; moved: boolean } | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Fit the whole route once it arrives (the map can mount before routing finishes)
+  const hasFittedRef = useRef(route.length > 0);
+  useEffect(() => {
+    if (!hasFittedRef.current && route.length > 0) {
+      const view = fitBounds(route, width, height);
+      setCenter(view.center);
+      setZoom(view.zoom);
+      hasFittedRef.current = true;
+    }
+  }, [route, width, height]);
+
+  const currentFrame = frames[currentIndex];
+  useEffect(() => {
+    if (followPosition && currentFrame) {
+      setCenter(getFrameCoordinate(currentFrame));
+    }
+  }, [followPosition, currentFrame]);
+
+  const centerPixel = latLonToWorldPixel(center[0], center[1], zoom);
+  const originX = centerPixel.x - width / 2;
+  const originY = centerPixel.y - height / 2;
+
+  const project = (coord: [number, number]): [number, number] => {
+    const pixel = latLonToWorldPixel(coord[0], coord[1], zoom);
+    return [pixel.x - originX, pixel.y - originY];
+  };
+
+  const { tiles } = getServiceConfig();
+  const tileCount = Math.pow(2, zoom);
+  const visibleTiles = [];
+  for (let ty = Math.floor(originY / TILE_SIZE); ty <= Math.floor((originY + height) / TILE_SIZE); ty++) {
+    if (ty < 0 || ty >= tileCount) continue;
+    for (let tx = Math.floor(originX / TILE_SIZE); tx <= Math.floor((originX + width) / TILE_SIZE); tx++) {
+      // Wrap horizontally around the antimeridian
+      const wrappedX = ((tx % tileCount) + tileCount) % tileCount;
+      visibleTiles.push({
+        key: `${tx}-${ty}`,
+        left: tx * TILE_SIZE - originX,
+        top: ty * TILE_SIZE - originY,
+        url: buildTileUrl(tiles, zoom, wrappedX, ty),
+      });
+    }
+  }
+
+  const routePath = route.map((coord) => project(coord).join(',')).join(' ');
+
+  // Waypoint index -> frame index, for markers that have an image
+  const frameByWaypoint = useMemo(() => {
+    const lookup = new Map<number, number>();
+    frames.forEach((frame, index) => lookup.set(frame.waypointIndex, index));
+    return lookup;
+  }, [frames]);
+
+  const changeZoom = (delta: number) => {
+    setZoom((prev) => Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, prev + delta)));
+  };
+
+  const handleWheel = (e: React.WheelEvent) => {
+    changeZoom(e.deltaY < 0 ? 1 : -1);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    dragRef.current = { startX: e.clientX, startY: e.clientY, startCenter: centerPixel, moved: false };
+    (e.target as Element).setPointerCapture?.(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+
+    const dx = e.clientX - drag.startX;
+    const dy = e.clientY - drag.startY;
+    if (!drag.moved && Math.hypot(dx, dy) < CLICK_TOLERANCE) return;
+
+    drag.moved = true;
+    setFollowPosition(false);
+    setCenter(worldPixelToLatLon(drag.startCenter.x - dx, drag.startCenter.y - dy, zoom));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (!drag || drag.moved || !containerRef.current) return;
+
+    // A click anywhere on the map seeks to the frame nearest to that point
+    const rect = containerRef.current.getBoundingClientRect();
+    const clicked = worldPixelToLatLon(originX + e.clientX - rect.left, originY + e.clientY - rect.top, zoom);
+    const nearest = findNearestFrameIndex(frames, clicked);
+    if (nearest >= 0) {
+      onSeek(nearest);
+    }
+  };
+
+  const handleMarkerClick = (e: React.PointerEvent, waypointIndex: number, waypoint: Waypoint) => {
+    e.stopPropagation();
+    dragRef.current = null;
+    const frameIndex = frameByWaypoint.get(waypointIndex);
+    const target = frameIndex !== undefined ? frameIndex : findNearestFrameIndex(frames, waypoint.coord);
+    if (target >= 0) {
+      onSeek(target);
+    }
+  };
+
+  const currentPosition = currentFrame ? project(getFrameCoordinate(currentFrame)) : null;
+
+  return (
+    <div className="route-map-container">
+      <div
+        ref={containerRef}
+        className="route-map"
+        style={{ width, height }}
+        onWheel={handleWheel}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={() => {
+          dragRef.current = null;
+        }}
+      >
+        {visibleTiles.map((tile) => (
+          <img
+            key={tile.key}
+            src={tile.url}
+            alt=""
+            className="tile-image"
+            draggable={false}
+            style={{ left: tile.left, top: tile.top, width: TILE_SIZE, height: TILE_SIZE }}
+          />
+        ))}
+
+        <svg className="route-map-overlay" width={width} height={height}>
+          {route.length > 1 && (
+            <>
+              <polyline points={routePath} className="route-map-line-casing" />
+              <polyline points={routePath} className="route-map-line" />
+            </>
+          )}
+
+          {gaps.map((gap) => (
+            <polyline
+              key={gap.startWaypoint}
+              points={gap.path.map((coord) => project(coord).join(',')).join(' ')}
+              className="route-map-gap"
+            >
+              <title>No imagery for {formatDistance(gap.lengthMeters)}</title>
+            </polyline>
+          ))}
+
+          {waypoints.map((waypoint, index) => {
+            const status = waypointStatuses[index] || 'pending';
+            const frameIndex = frameByWaypoint.get(index);
+            const failed = frameIndex !== undefined && failedFrames?.has(frameIndex);
+            const sequenceStart = frameIndex !== undefined && isSequenceChange(frames, frameIndex);
+            const lowConfidence = frameIndex !== undefined && frames[frameIndex].lowConfidence;
+            const [x, y] = project(waypoint.coord);
+            if (x < -10 || y < -10 || x > width + 10 || y > height + 10) return null;
+
+            return (
+              <circle
+                key={index}
+                cx={x}
+                cy={y}
+                r={status === 'found' ? 5 : 3.5}
+                fill={failed ? '#f39c12' : lowConfidence ? LOW_CONFIDENCE_COLOR : STATUS_COLORS[status]}
+                className={`route-map-marker ${sequenceStart ? 'sequence-start' : ''}`}
+                onPointerDown={(e) => e.stopPropagation()}
+                onPointerUp={(e) => handleMarkerClick(e, index, waypoint)}
+              >
+                <title>
+                  {frameIndex !== undefined
+                    ? `Frame ${frameIndex + 1}${lowConfidence ? ' (low confidence)' : ''}${sequenceStart ? ' (new capture sequence)' : ''}${failed ? ' (image failed to load)' : ''}`
+                    : `Waypoint ${index + 1}: ${status}${waypointRejections[index] ? ` (${waypointRejections[index]})` : ''}`}
+                </title>
+              </circle>
+            );
+          })}
+
+          {currentPosition && (
+            <circle cx={currentPosition[0]} cy={currentPosition[1]} r={8} className="route-map-position" />
+          )}
+        </svg>
+      </div>
+
+      <div className="route-map-controls">
+        <button onClick={() => changeZoom(1)} aria-label="Zoom in">+</button>
+        <button onClick={() => changeZoom(-1)} aria-label="Zoom out">−</button>
+        <button
+          onClick={() => setFollowPosition(!followPosition)}
+          className={followPosition ? 'active' : ''}
+          aria-label="Follow current position"
+          title="Follow current position"
+        >
+          ⌖
+        </button>
+        <button
+          onClick={() => {
+            const view = fitBounds(route, width, height);
+            setFollowPosition(false);
+            setCenter(view.center);
+            setZoom(view.zoom);
+          }}
+          aria-label="Show whole route"
+          title="Show whole route"
+        >
+          ⤢
+        </button>
+      </div>
+
+      <div className="route-map-legend">
+        <span><i style={{ background: STATUS_COLORS.found }} /> Image</span>
+        <span><i style={{ background: LOW_CONFIDENCE_COLOR }} /> Low confidence</span>
+        <span><i style={{ background: STATUS_COLORS.missing }} /> Missing</span>
+        {gaps.length > 0 && <span><i className="gap" /> Coverage gap</span>}
+        <span><i style={{ background: STATUS_COLORS.duplicate }} /> Skipped</span>
+        <span><i style={{ background: '#f39c12' }} /> Load error</span>
+        <span><i className="sequence-start" style={{ background: STATUS_COLORS.found }} /> New sequence</span>
+      </div>
+    </div>
+  );
+};
+
+export default RouteMap;
@@ -0,0 +1,290 @@
+import React, { useState, useEffect } from 'react';
+import {
+  ServiceConfig,
+  ServiceEndpoint,
+  ServiceName,
+  ImageryProviderType,
+  getServiceConfig,
+  setServiceConfig,
+  resetServiceConfig,
+} from '../services/config';
+import { CacheStats, clearCache, getCacheStats } from '../services/cache';
+import {
+  ScoringConfig,
+  DEFAULT_SCORING_CONFIG,
+  getScoringConfig,
+  setScoringConfig,
+} from '../services/scoring';
+import './SettingsPanel.css';
+
+interface SettingsPanelProps {
+  onClose: () => void;
+}
+
+const SERVICE_LABELS: Record<ServiceName, { title: string; urlHint: string }> = {
+  geocoder: { title: 'Geocoder (Nominatim)', urlHint: 'Search endpoint, e.g. https://nominatim.example.com/search' },
+  router: { title: 'Router (OSRM)', urlHint: 'Server root, e.g. http://localhost:5000' },
+  imagery: { title: 'Imagery (Mapillary)', urlHint: 'Graph API root, e.g. https://graph.mapillary.com' },
+  tiles: { title: 'Map tiles', urlHint: 'Template with {z}/{x}/{y}, e.g. https://tiles.example.com/{z}/{x}/{y}.png' },
+};
+
+const SCORING_FIELDS: Array<{ key: keyof ScoringConfig; label: string; step: number; min?: number }> = [
+  // A zero radius finds nothing and can't be widened, so it has to be positive
+  { key: 'radiusMeters', label: 'Search radius (m)', step: 1, min: 1 },
+  { key: 'headingToleranceDegrees', label: 'Heading tolerance (°)', step: 1 },
+  { key: 'maxRadiusMeters', label: 'Widest search radius (m)', step: 1 },
+  { key: 'maxHeadingToleranceDegrees', label: 'Widest heading tolerance (°)', step: 1 },
+  { key: 'headingWeight', label: 'Points per degree off', step: 0.1 },
+  { key: 'distanceWeight', label: 'Points per meter away', step: 0.1 },
+  { key: 'cameraMismatchPenalty', label: 'Camera mismatch penalty', step: 1 },
+  { key: 'recencyWeight', label: 'Points per year old', step: 0.1 },
+  { key: 'sequenceSwitchPenalty', label: 'Sequence switch penalty', step: 1 },
+];
+
+// Tiles are plain <img> requests, so only these services can send custom headers
+const HEADER_SERVICES: ServiceName[] = ['geocoder', 'router', 'imagery'];
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ onClose }) => {
+  const [config, setConfig] = useState<ServiceConfig>(getServiceConfig);
+  // Headers are edited as raw JSON and only parsed on save
+  const [headerDrafts, setHeaderDrafts] = useState<Partial<Record<ServiceName, string>>>(() => {
+    const current = getServiceConfig();
+    const drafts: Partial<Record<ServiceName, string>> = {};
+    HEADER_SERVICES.forEach((service) => {
+      drafts[service] = JSON.stringify(current[service].headers, null, 2);
+    });
+    return drafts;
+  });
+  const [scoring, setScoring] = useState<ScoringConfig>(getScoringConfig);
+  const [error, setError] = useState('');
+  const [cacheStats, setCacheStats] = useState<CacheStats | null>(null);
+  const [isClearingCache, setIsClearingCache] = useState(false);
+
+  useEffect(() => {
+    getCacheStats()
+      .then(setCacheStats)
+      .catch((statsError) => console.error('Could not read cache stats:', statsError));
+  }, []);
+
+  const handleClearCache = async () => {
+    setIsClearingCache(true);
+    try {
+      await clearCache();
+      setCacheStats(await getCacheStats());
+    } catch (clearError) {
+      console.error('Could not clear cache:', clearError);
+      setError('Could not clear the cache');
+    } finally {
+      setIsClearingCache(false);
+    }
+  };
+
+  const updateEndpoint = (service: ServiceName, changes: Partial<ServiceEndpoint>) => {
+    setConfig((prev) => ({ ...prev, [service]: { ...prev[service], ...changes } }));
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const parsedHeaders: Partial<Record<ServiceName, Record<string, string>>> = {};
+    for (const service of HEADER_SERVICES) {
+      try {
+        const headers = JSON.parse(headerDrafts[service] || '{}');
+        if (!headers || typeof headers !== 'object' || Array.isArray(headers)) {
+          throw new Error('not an object');
+        }
+        parsedHeaders[service] = headers;
+      } catch (parseError) {
+        setError(`${SERVICE_LABELS[service].title}: headers must be a JSON object`);
+        return;
+      }
+    }
+
+    const invalidField = SCORING_FIELDS.find(({ key, min = 0 }) => !(scoring[key] >= min));
+    if (invalidField) {
+      setError(`${invalidField.label} must be ${invalidField.min ? `at least ${invalidField.min}` : 'zero or more'}`);
+      return;
+    }
+
+    const nextConfig: ServiceConfig = {
+      geocoder: { ...config.geocoder, headers: parsedHeaders.geocoder || {} },
+      router: { ...config.router, headers: parsedHeaders.router || {} },
+      imagery: { ...config.imagery, headers: parsedHeaders.imagery || {} },
+      tiles: config.tiles,
+    };
+
+    setServiceConfig(nextConfig);
+    setScoringConfig(scoring);
+    onClose();
+  };
+
+  const handleReset = () => {
+    resetServiceConfig();
+    setScoringConfig(DEFAULT_SCORING_CONFIG);
+    onClose();
+  };
+
+  return (
+    <>
+      <div className="settings-backdrop" onClick={onClose} />
+      <div className="settings-panel" role="dialog" aria-label="Service settings">
+        <button className="settings-close" onClick={onClose} aria-label="Close">
+          ✕
+        </button>
+        <h3>Service settings</h3>
+        <p className="settings-note">
+          Point the app at self-hosted or mock services. Changes are saved in this browser and
+          override the <code>REACT_APP_*</code> environment defaults.
+        </p>
+
+        <form onSubmit={handleSave}>
+          {(Object.keys(SERVICE_LABELS) as ServiceName[]).map((service) => (
+            <fieldset key={service} className="settings-section">
+              <legend>{SERVICE_LABELS[service].title}</legend>
+
+              {service === 'imagery' && (
+                <>
+                  <label htmlFor="imagery-provider">Provider</label>
+                  <select
+                    id="imagery-provider"
+                    value={config.imagery.provider}
+                    onChange={(e) =>
+                      setConfig((prev) => ({
+                        ...prev,
+                        imagery: { ...prev.imagery, provider: e.target.value as ImageryProviderType },
+                      }))
+                    }
+                  >
+                    <option value="mapillary">Mapillary API</option>
+                    <option value="fixture">Local catalogue (fixtures)</option>
+                  </select>
+
+                  {config.imagery.provider === 'fixture' && (
+                    <>
+                      <label htmlFor="imagery-fixture-url">Catalogue URL</label>
+                      <input
+                        id="imagery-fixture-url"
+                        type="text"
+                        value={config.imagery.fixtureUrl}
+                        onChange={(e) =>
+                          setConfig((prev) => ({
+                            ...prev,
+                            imagery: { ...prev.imagery, fixtureUrl: e.target.value },
+                          }))
+                        }
+                      />
+                    </>
+                  )}
+                </>
+              )}
+
+              <label htmlFor={`${service}-url`}>URL</label>
+              <input
+                id={`${service}-url`}
+                type="text"
+                value={config[service].url}
+                onChange={(e) => updateEndpoint(service, { url: e.target.value })}
+                required
+              />
+              <small>{SERVICE_LABELS[service].urlHint}</small>
+
+              <div className="settings-row">
+                <div>
+                  <label htmlFor={`${service}-key`}>API key</label>
+                  <input
+                    id={`${service}-key`}
+                    type="password"
+                    value={config[service].apiKey}
+                    onChange={(e) => updateEndpoint(service, { apiKey: e.target.value })}
+                    autoComplete="off"
+                  />
+                </div>
+                <div>
+                  <label htmlFor={`${service}-key-param`}>Key parameter</label>
+                  <input
+                    id={`${service}-key-param`}
+                    type="text"
+                    value={config[service].apiKeyParam}
+                    onChange={(e) => updateEndpoint(service, { apiKeyParam: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              {HEADER_SERVICES.includes(service) ? (
+                <>
+                  <label htmlFor={`${service}-headers`}>Headers (JSON)</label>
+                  <textarea
+                    id={`${service}-headers`}
+                    rows={2}
+                    value={headerDrafts[service] || ''}
+                    onChange={(e) => setHeaderDrafts((prev) => ({ ...prev, [service]: e.target.value }))}
+                  />
+                </>
+              ) : (
+                <small>Tiles are loaded as plain images, so custom headers cannot be sent.</small>
+              )}
+            </fieldset>
+          ))}
+
+          <fieldset className="settings-section">
+            <legend>Image scoring</legend>
+            <div className="settings-grid">
+              {SCORING_FIELDS.map(({ key, label, step, min = 0 }) => (
+                <div key={key}>
+                  <label htmlFor={`scoring-${key}`}>{label}</label>
+                  <input
+                    id={`scoring-${key}`}
+                    type="number"
+                    min={min}
+                    step={step}
+                    value={scoring[key]}
+                    onChange={(e) => setScoring((prev) => ({ ...prev, [key]: parseFloat(e.target.value) }))}
+                  />
+                </div>
+              ))}
+            </div>
+            <small>
+              Candidates farther than the radius or further off the route bearing than the tolerance are
+              rejected; the rest are ranked by points, lowest first. Waypoints with no acceptable image are
+              searched again with the radius doubling up to the widest radius, and images found that way
+              are marked low-confidence.
+            </small>
+          </fieldset>
+
+          <fieldset className="settings-section">
+            <legend>Cache</legend>
+            <div className="settings-cache">
+              <span>
+                {cacheStats
+                  ? `${cacheStats.entries} of ${cacheStats.maxEntries} cached lookups`
+                  : 'Reading cache...'}
+              </span>
+              <button
+                type="button"
+                className="settings-button secondary"
+                onClick={handleClearCache}
+                disabled={isClearingCache}
+              >
+                {isClearingCache ? 'Clearing...' : 'Clear cache'}
+              </button>
+            </div>
+            <small>Geocoding, routes and image searches are kept locally so repeat drives load instantly and work offline.</small>
+          </fieldset>
+
+          {error && <p className="settings-error">{error}</p>}
+
+          <div className="settings-actions">
+            <button type="button" className="settings-button secondary" onClick={handleReset}>
+              Reset to defaults
+            </button>
+            <button type="submit" className="settings-button primary">
+              Save
+            </button>
+          </div>
+        </form>
+      </div>
+    </>
+  );
+};
+
+export default SettingsPanel;
@@ -0,0 +1,134 @@
+import React, { useState, useRef } from 'react';
+import { exportDriveVideo, isVideoExportSupported } from '../utils/videoExport';
+import { downloadBlob, fileTimestamp } from '../utils/download';
+import './VideoExportPanel.css';
+
+interface VideoExportPanelProps {
+  images: string[];
+  coordinates: [number, number][];
+  playbackSpeed: number;
+  /** Per-frame display times, overriding playbackSpeed (distance-based playback) */
+  frameDurations?: number[];
+  onClose: () => void;
+}
+
+const VideoExportPanel: React.FC<VideoExportPanelProps> = ({
+  images,
+  coordinates,
+  playbackSpeed,
+  frameDurations,
+  onClose,
+}) => {
+  const [includeMinimap, setIncludeMinimap] = useState(true);
+  const [includeOverlay, setIncludeOverlay] = useState(true);
+  const [isExporting, setIsExporting] = useState(false);
+  const [framesDone, setFramesDone] = useState(0);
+  const [error, setError] = useState('');
+  const cancelExportRef = useRef(false);
+
+  // The frame list is fixed when recording starts, so frames still loading are not included
+  const totalFrames = images.length;
+  const estimatedSeconds = Math.ceil(
+    (frameDurations ? frameDurations.reduce((sum, ms) => sum + ms, 0) : totalFrames * playbackSpeed) / 1000
+  );
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setFramesDone(0);
+    setError('');
+    cancelExportRef.current = false;
+
+    try {
+      const blob = await exportDriveVideo({
+        images: [...images],
+        coordinates: [...coordinates],
+        frameDurationMs: playbackSpeed,
+        frameDurationsMs: frameDurations,
+        includeMinimap,
+        includeOverlay,
+        onProgress: (done) => setFramesDone(done),
+        isCancelled: () => cancelExportRef.current,
+      });
+
+      if (!cancelExportRef.current) {
+        downloadBlob(blob, `drive-${fileTimestamp()}.webm`);
+      }
+    } catch (exportError) {
+      console.error('Video export failed:', exportError);
+      setError(exportError instanceof Error ? exportError.message : 'Video export failed');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleCancel = () => {
+    cancelExportRef.current = true;
+  };
+
+  if (!isVideoExportSupported()) {
+    return (
+      <div className="video-export-panel">
+        <p>Video export needs a browser with MediaRecorder and canvas capture support.</p>
+        <button className="control-btn" onClick={onClose}>Close</button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="video-export-panel">
+      <h3>Export video</h3>
+      <p className="video-export-note">
+        Records {totalFrames} frames at the current pace (about {estimatedSeconds}s). Recording runs in
+        real time, so keep this tab open.
+      </p>
+
+      <label>
+        <input
+          type="checkbox"
+          checked={includeMinimap}
+          onChange={(e) => setIncludeMinimap(e.target.checked)}
+          disabled={isExporting}
+        />
+        Burn in minimap
+      </label>
+      <label>
+        <input
+          type="checkbox"
+          checked={includeOverlay}
+          onChange={(e) => setIncludeOverlay(e.target.checked)}
+          disabled={isExporting}
+        />
+        Burn in frame number and coordinates
+      </label>
+
+      {isExporting && (
+        <div className="video-export-progress">
+          <div
+            className="video-export-progress-fill"
+            style={{ width: `${(framesDone / Math.max(totalFrames, 1)) * 100}%` }}
+          />
+          <span>
+            {framesDone} / {totalFrames} frames
+          </span>
+        </div>
+      )}
+
+      {error && <p className="video-export-error">{error}</p>}
+
+      <div className="video-export-actions">
+        {isExporting ? (
+          <button className="control-btn" onClick={handleCancel}>Cancel</button>
+        ) : (
+          <>
+            <button className="control-btn" onClick={onClose}>Close</button>
+            <button className="control-btn play-pause" onClick={handleExport} disabled={totalFrames === 0}>
+              Record WebM
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default VideoExportPanel;
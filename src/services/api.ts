@@ -1,10 +1,13 @@
 // API services for geocoding, routing, and Mapillary imagery
 
 import { decode } from '../utils/polyline';
-
-const MAPILLARY_ACCESS_TOKEN = process.env.REACT_APP_MAPILLARY_TOKEN || '';
-const OSRM_DIRECTIONS_API = 'https://router.project-osrm.org/route/v1/driving/';
-const MAPILLARY_API_BASE = 'https://graph.mapillary.com';
+import { OsrmStep, RouteManeuver, parseOsrmLegs } from '../utils/guidance';
+import type { ImageryProvider } from './imagery';
+import { getServiceConfig, buildServiceUrl } from './config';
+import { cached, normalizeAddress, normalizeCoordinate } from './cache';
+import { ApiError, AuthError, RateLimitError, fetchWithRetry, createLimiter, isAbortError } from './http';
+import { CaptureDateFilter } from '../utils/captureDate';
+import { SelectionResult, searchWithWidening, getScoringConfig } from './scoring';
 
 export interface MapillaryImage {
   id: string;
@@ -13,172 +16,272 @@ export interface MapillaryImage {
   geometry: {
     coordinates: [number, number];
   };
+  /** 360° equirectangular image */
+  isPano?: boolean;
+  /** Capture time in milliseconds since epoch */
+  capturedAt?: number;
+  /** Mapillary capture sequence the image belongs to */
+  sequenceId?: string;
+  /** Only found after widening the search beyond the configured radius */
+  lowConfidence?: boolean;
 }
 
 /**
- * Convert address to lon,lat using Nominatim (OpenStreetMap geocoding)
+ * Image record as returned by the Mapillary Graph API (and stored in fixture catalogues)
  */
-export async function geocodeAddress(address: string): Promise<string> {
-  const nominatimUrl = 'https://nominatim.openstreetmap.org/search';
-  const params = new URLSearchParams({
-    q: address,
-    format: 'json',
-    limit: '1',
-  });
-
-  const response = await fetch(`${nominatimUrl}?${params}`, {
-    headers: { 'User-Agent': 'MapillaryDrivingSimulator/1.0' },
-  });
-
-  if (!response.ok) {
-    throw new Error(`Geocoding failed: ${response.statusText}`);
-  }
-
-  const result = await response.json();
+export interface MapillaryApiImage {
+  id: string;
+  thumb_2048_url?: string;
+  computed_compass_angle?: number;
+  geometry?: {
+    coordinates: [number, number];
+  };
+  captured_at?: number;
+  is_pano?: boolean;
+  make?: string;
+  sequence?: string;
+}
 
-  if (result && result.length > 0) {
-    // Return in lon,lat format for OSRM
-    return `${result[0].lon},${result[0].lat}`;
-  } else {
-    throw new Error(`Could not geocode address: ${address}`);
-  }
+export interface ImageSearchOptions {
+  /** Camera makes to favour when several images match (lowercase substrings) */
+  preferredCameraMakes?: string[];
+  /** Keep 360° panoramas, which can be turned to face any heading */
+  includePanoramas?: boolean;
+  /** Restrict or rank images by when they were captured */
+  captureFilter?: CaptureDateFilter;
 }
 
+const METERS_PER_DEGREE = 111320;
+// Image searches in flight at once
+const DEFAULT_IMAGE_CONCURRENCY = 6;
+
 /**
- * Get route coordinates between origin and destination using OSRM
+ * Convert address to lon,lat using Nominatim (OpenStreetMap geocoding)
  */
-export async function getRouteCoordinates(
-  origin: string,
-  destination: string
-): Promise<[number, number][]> {
-  const url = `${OSRM_DIRECTIONS_API}${origin};${destination}?overview=full&geometries=polyline`;
-  
-  console.log('OSRM Request URL:', url);
-
-  const response = await fetch(url);
-  if (!response.ok) {
-    const errorText = await response.text();
-    console.error('OSRM Error Response:', errorText);
-    throw new Error(`Route request failed: ${response.statusText}. Please check coordinates format.`);
-  }
+export async function geocodeAddress(address: string, signal?: AbortSignal): Promise<string> {
+  const { geocoder } = getServiceConfig();
+  const cacheKey = `${geocoder.url}|${normalizeAddress(address)}`;
 
-  const data = await response.json();
-  console.log('OSRM Response:', data);
+  return cached('geocode', cacheKey, async () => {
+    const params = new URLSearchParams({
+      q: address,
+      format: 'json',
+      limit: '1',
+    });
 
-  if (data.code !== 'Ok') {
-    throw new Error(`OSRM Error: ${data.message || 'Unknown routing error'}`);
-  }
+    const response = await fetchWithRetry(
+      buildServiceUrl(geocoder, '', params),
+      { headers: geocoder.headers, signal },
+      { service: 'Geocoder' }
+    );
 
-  if (data.routes && data.routes.length > 0) {
-    const encodedPolyline = data.routes[0].geometry;
-    return decode(encodedPolyline);
-  }
+    const result = await response.json();
+
+    if (result && result.length > 0) {
+      // Return in lon,lat format for OSRM
+      return `${result[0].lon},${result[0].lat}`;
+    } else {
+      throw new Error(`Could not geocode address: ${address}`);
+    }
+  });
+}
+
+interface OsrmRoute {
+  geometry: string;
+  distance?: number;
+  duration?: number;
+  legs?: Array<{ steps?: OsrmStep[] }>;
+}
 
-  return [];
+export interface RouteResult {
+  /** Route geometry as [lat, lon] pairs */
+  coordinates: [number, number][];
+  /** Turn-by-turn maneuvers along the route */
+  maneuvers: RouteManeuver[];
+  distanceMeters: number;
+  durationSeconds: number;
 }
 
 /**
- * Find Mapillary image near the given coordinate with specified heading
+ * Get the candidate routes through an ordered list of stops using OSRM, best first, with their
+ * turn-by-turn steps. OSRM only offers alternatives between two stops; otherwise there is one route.
+ * @param stops - Stops in "lon,lat" format; the first is the origin, the last the destination
+ * @param osrmProfile - OSRM routing profile (driving, cycling, walking)
  */
-export async function getMapillaryImage(
-  coord: [number, number],
-  heading: number
-): Promise<MapillaryImage | null> {
-  try {
-    const [lat, lon] = coord;
+export async function getRouteAlternatives(
+  stops: string[],
+  osrmProfile: string = 'driving',
+  signal?: AbortSignal
+): Promise<RouteResult[]> {
+  if (stops.length < 2) {
+    throw new Error('A route needs at least an origin and a destination');
+  }
 
-    const url = `${MAPILLARY_API_BASE}/images`;
+  const { router } = getServiceConfig();
+  const normalizedStops = stops.map((stop) =>
+    stop.split(',').map((value) => normalizeCoordinate(parseFloat(value))).join(',')
+  );
+  const cacheKey = `${router.url}|${osrmProfile}|${normalizedStops.join(';')}|steps|alternatives`;
+
+  return cached('route', cacheKey, async () => {
     const params = new URLSearchParams({
-      access_token: MAPILLARY_ACCESS_TOKEN,
-      fields: 'id,computed_compass_angle,geometry,captured_at,is_pano,thumb_2048_url',
-      bbox: `${lon - 0.0002},${lat - 0.0002},${lon + 0.0002},${lat + 0.0002}`,
-      limit: '50',
+      overview: 'full',
+      geometries: 'polyline',
+      steps: 'true',
+      alternatives: 'true',
     });
+    const url = buildServiceUrl(router, `/route/v1/${osrmProfile}/${stops.join(';')}`, params);
 
-    const response = await fetch(`${url}?${params}`);
-    if (!response.ok) {
-      throw new Error(`Mapillary API error: ${response.statusText}`);
-    }
+    console.log('OSRM Request URL:', url);
 
+    const response = await fetchWithRetry(url, { headers: router.headers, signal }, { service: 'Router' });
     const data = await response.json();
+    console.log('OSRM Response:', data);
 
-    if (data.data && data.data.length > 0) {
-      let bestImage: any = null;
-      let bestScore = Infinity;
-
-      for (const image of data.data) {
-        // Skip panoramic images or images without thumb URL
-        if (image.is_pano || !image.thumb_2048_url) continue;
+    if (data.code !== 'Ok') {
+      throw new Error(`OSRM Error: ${data.message || 'Unknown routing error'}`);
+    }
 
-        // Calculate distance
-        let distance = 0.0001;
-        if (image.geometry?.coordinates) {
-          const [imgLon, imgLat] = image.geometry.coordinates;
-          distance = Math.sqrt(
-            Math.pow(imgLat - lat, 2) + Math.pow(imgLon - lon, 2)
-          );
+    return (data.routes || []).map((route: OsrmRoute): RouteResult => ({
+      coordinates: decode(route.geometry),
+      maneuvers: parseOsrmLegs(route.legs || []),
+      distanceMeters: route.distance || 0,
+      durationSeconds: route.duration || 0,
+    }));
+  });
+}
 
-          // Distance threshold - only accept images within ~20 meters
-          if (distance > 0.0002) continue;
-        }
+/**
+ * Get one route through an ordered list of stops using OSRM, with its turn-by-turn steps
+ * @param alternativeIndex - Which of the routes from getRouteAlternatives; falls back to the best one
+ */
+export async function getRoute(
+  stops: string[],
+  osrmProfile: string = 'driving',
+  signal?: AbortSignal,
+  alternativeIndex: number = 0
+): Promise<RouteResult> {
+  const routes = await getRouteAlternatives(stops, osrmProfile, signal);
+  return routes[alternativeIndex] || routes[0] || { coordinates: [], maneuvers: [], distanceMeters: 0, durationSeconds: 0 };
+}
 
-        // Calculate heading difference
-        if (!image.computed_compass_angle) continue;
+/**
+ * Get route coordinates through an ordered list of stops using OSRM
+ * @param stops - Stops in "lon,lat" format; the first is the origin, the last the destination
+ * @param osrmProfile - OSRM routing profile (driving, cycling, walking)
+ */
+export async function getRouteCoordinates(
+  stops: string[],
+  osrmProfile: string = 'driving',
+  signal?: AbortSignal
+): Promise<[number, number][]> {
+  const route = await getRoute(stops, osrmProfile, signal);
+  return route.coordinates;
+}
 
-        let angleDiff = Math.abs(image.computed_compass_angle - heading);
-        if (angleDiff > 180) {
-          angleDiff = 360 - angleDiff;
-        }
+/**
+ * Bounding box searched around a waypoint, as [minLon, minLat, maxLon, maxLat]
+ * @param radiusMeters - Half the box size; covers the scoring radius around the waypoint
+ */
+export function getSearchBbox(
+  coord: [number, number],
+  radiusMeters: number = getScoringConfig().radiusMeters
+): [number, number, number, number] {
+  const [lat, lon] = coord;
+  const latDelta = radiusMeters / METERS_PER_DEGREE;
+  const lonDelta = radiusMeters / (METERS_PER_DEGREE * Math.max(Math.cos(lat * Math.PI / 180), 0.01));
+  return [lon - lonDelta, lat - latDelta, lon + lonDelta, lat + latDelta];
+}
 
-        // Only accept images within 45 degrees of desired heading
-        if (angleDiff > 45) continue;
+/**
+ * Search Mapillary around the given coordinate and score the candidates against the heading,
+ * widening the search when nothing acceptable is close by
+ */
+export async function searchMapillaryImages(
+  coord: [number, number],
+  heading: number,
+  options: ImageSearchOptions = {},
+  signal?: AbortSignal
+): Promise<SelectionResult> {
+  const { imagery } = getServiceConfig();
 
-        // Combined score: prioritize heading match, then distance
-        const score = angleDiff * 3 + distance * 10000;
+  // The raw candidates are cached rather than the winner, so the same bbox can be
+  // re-scored for any heading or search option without another request
+  const fetchCandidates = (radiusMeters: number) => {
+    const bbox = getSearchBbox(coord, radiusMeters).map(normalizeCoordinate).join(',');
+    return cached('images', `${imagery.url}|${bbox}`, async () => {
+      const params = new URLSearchParams({
+        fields: 'id,computed_compass_angle,geometry,captured_at,is_pano,thumb_2048_url,make,sequence',
+        bbox,
+        limit: '50',
+      });
 
-        if (score < bestScore) {
-          bestScore = score;
-          bestImage = image;
-        }
+      const response = await fetchWithRetry(
+        buildServiceUrl(imagery, '/images', params),
+        { headers: imagery.headers, signal },
+        { service: 'Mapillary' }
+      );
+      let data;
+      try {
+        data = await response.json();
+      } catch (parseError) {
+        throw new ApiError('Mapillary', response.status, 'Mapillary returned a response that is not valid JSON');
       }
+      return (data?.data || []) as MapillaryApiImage[];
+    });
+  };
 
-      if (bestImage) {
-        return {
-          id: bestImage.id,
-          thumbUrl: bestImage.thumb_2048_url,
-          computedCompassAngle: bestImage.computed_compass_angle,
-          geometry: bestImage.geometry,
-        };
-      }
-    }
+  return searchWithWidening(fetchCandidates, coord, heading, options);
+}
 
-    return null;
-  } catch (error) {
-    console.error('Mapillary API error:', error);
-    return null;
-  }
+/**
+ * Find Mapillary image near the given coordinate with specified heading
+ */
+export async function getMapillaryImage(
+  coord: [number, number],
+  heading: number,
+  options: ImageSearchOptions = {},
+  signal?: AbortSignal
+): Promise<MapillaryImage | null> {
+  const result = await searchMapillaryImages(coord, heading, options, signal);
+  return result.winner;
 }
 
 /**
- * Fetch multiple Mapillary images in parallel with batching to avoid overwhelming the API
+ * Search multiple waypoints, keeping a limited number of requests in flight.
+ * Uses Mapillary directly unless another imagery provider is given.
+ * A waypoint whose search fails is returned without a winner and with the error; aborts,
+ * rejected credentials and exhausted rate limits stop the whole batch instead.
  */
 export async function getMapillaryImagesBatch(
   points: Array<{ coord: [number, number]; heading: number }>,
-  batchSize: number = 10
-): Promise<Array<MapillaryImage | null>> {
-  const results: Array<MapillaryImage | null> = [];
-  
-  for (let i = 0; i < points.length; i += batchSize) {
-    const batch = points.slice(i, i + batchSize);
-    const batchPromises = batch.map(point => getMapillaryImage(point.coord, point.heading));
-    const batchResults = await Promise.all(batchPromises);
-    results.push(...batchResults);
-    
-    // Small delay between batches to be respectful to the API
-    if (i + batchSize < points.length) {
-      await new Promise(resolve => setTimeout(resolve, 100));
-    }
-  }
-  
-  return results;
+  options: ImageSearchOptions = {},
+  provider?: ImageryProvider,
+  signal?: AbortSignal,
+  concurrency: number = DEFAULT_IMAGE_CONCURRENCY
+): Promise<SelectionResult[]> {
+  const findImages = provider ? provider.searchImages : searchMapillaryImages;
+  const limit = createLimiter(concurrency);
+
+  return Promise.all(
+    points.map((point) =>
+      limit(async (): Promise<SelectionResult> => {
+        try {
+          return await findImages(point.coord, point.heading, options, signal);
+        } catch (error) {
+          if (isAbortError(error) || error instanceof AuthError || error instanceof RateLimitError) {
+            throw error;
+          }
+          // Anything else (a bad response, a broken fixture catalogue) only costs this waypoint
+          console.error('Image search failed:', error);
+          return {
+            winner: null,
+            ranked: [],
+            rejections: [],
+            error: error instanceof Error ? error.message : String(error),
+          };
+        }
+      })
+    )
+  );
 }
@@ -0,0 +1,204 @@
+// Persistent cache for geocoding, routing and image lookups, backed by IndexedDB.
+// Falls back to an in-memory map when IndexedDB is unavailable (e.g. private browsing).
+
+import { isAbortError } from './http';
+
+export type CacheNamespace = 'geocode' | 'route' | 'images';
+
+interface CacheEntry<T = unknown> {
+  key: string;
+  namespace: CacheNamespace;
+  value: T;
+  createdAt: number;
+  expiresAt: number;
+  lastAccess: number;
+}
+
+export interface CacheStats {
+  entries: number;
+  maxEntries: number;
+}
+
+const DB_NAME = 'mapillary-simulator-cache';
+const DB_VERSION = 1;
+const STORE_NAME = 'entries';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Time to live per namespace: addresses rarely move, imagery changes most often */
+export const CACHE_TTL_MS: Record<CacheNamespace, number> = {
+  geocode: 30 * DAY_MS,
+  route: 7 * DAY_MS,
+  images: 7 * DAY_MS,
+};
+
+/** Size cap; least recently used entries are evicted beyond it */
+export const MAX_CACHE_ENTRIES = 20000;
+
+const memoryStore = new Map<string, CacheEntry>();
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve) => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+        store.createIndex('lastAccess', 'lastAccess');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.error('Cache database unavailable, using memory cache:', request.error);
+        resolve(null);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function readEntry(key: string): Promise<CacheEntry | undefined> {
+  const db = await openDatabase();
+  if (!db) return memoryStore.get(key);
+
+  const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+  return promisifyRequest<CacheEntry | undefined>(store.get(key));
+}
+
+async function writeEntry(entry: CacheEntry): Promise<void> {
+  const db = await openDatabase();
+  if (!db) {
+    memoryStore.set(entry.key, entry);
+    return;
+  }
+
+  const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+  await promisifyRequest(store.put(entry));
+}
+
+/**
+ * Drop the least recently used entries until the cache is back under its size cap
+ */
+async function evictIfNeeded(): Promise<void> {
+  const db = await openDatabase();
+
+  if (!db) {
+    if (memoryStore.size <= MAX_CACHE_ENTRIES) return;
+    const byAccess = Array.from(memoryStore.values()).sort((a, b) => a.lastAccess - b.lastAccess);
+    byAccess.slice(0, memoryStore.size - MAX_CACHE_ENTRIES).forEach((entry) => memoryStore.delete(entry.key));
+    return;
+  }
+
+  const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+  const count = await promisifyRequest(store.count());
+  let toEvict = count - MAX_CACHE_ENTRIES;
+  if (toEvict <= 0) return;
+
+  await new Promise<void>((resolve, reject) => {
+    const cursorRequest = store.index('lastAccess').openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor || toEvict <= 0) {
+        resolve();
+        return;
+      }
+      cursor.delete();
+      toEvict--;
+      cursor.continue();
+    };
+    cursorRequest.onerror = () => reject(cursorRequest.error);
+  });
+}
+
+/**
+ * Return the cached value for a key, or load and store it.
+ * When the loader fails (e.g. the network is down) an expired entry is served instead, if any;
+ * an aborted load is always rethrown.
+ */
+export async function cached<T>(
+  namespace: CacheNamespace,
+  key: string,
+  loader: () => Promise<T>,
+  ttlMs: number = CACHE_TTL_MS[namespace]
+): Promise<T> {
+  const fullKey = `${namespace}:${key}`;
+  const now = Date.now();
+
+  let entry: CacheEntry | undefined;
+  try {
+    entry = await readEntry(fullKey);
+  } catch (error) {
+    console.error('Cache read failed:', error);
+  }
+
+  if (entry && entry.expiresAt > now) {
+    // Refresh recency for LRU eviction without holding up the caller
+    writeEntry({ ...entry, lastAccess: now }).catch((error) => console.error('Cache write failed:', error));
+    return entry.value as T;
+  }
+
+  let value: T;
+  try {
+    value = await loader();
+  } catch (error) {
+    if (entry && !isAbortError(error)) {
+      console.warn(`Serving expired cache entry for ${fullKey}:`, error);
+      return entry.value as T;
+    }
+    throw error;
+  }
+
+  try {
+    await writeEntry({ key: fullKey, namespace, value, createdAt: now, expiresAt: now + ttlMs, lastAccess: now });
+    await evictIfNeeded();
+  } catch (error) {
+    console.error('Cache write failed:', error);
+  }
+
+  return value;
+}
+
+/**
+ * Remove every cached geocoding, route and image lookup
+ */
+export async function clearCache(): Promise<void> {
+  memoryStore.clear();
+  const db = await openDatabase();
+  if (!db) return;
+
+  const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+  await promisifyRequest(store.clear());
+}
+
+export async function getCacheStats(): Promise<CacheStats> {
+  const db = await openDatabase();
+  if (!db) return { entries: memoryStore.size, maxEntries: MAX_CACHE_ENTRIES };
+
+  const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+  const entries = await promisifyRequest(store.count());
+  return { entries, maxEntries: MAX_CACHE_ENTRIES };
+}
+
+/**
+ * Case- and whitespace-insensitive form of an address, so "Paris,  France" and "paris, france" share an entry
+ */
+export function normalizeAddress(address: string): string {
+  return address.trim().toLowerCase().replace(/\s+/g, ' ').replace(/\s*,\s*/g, ',');
+}
+
+/**
+ * Round coordinates to ~10cm so floating point noise does not defeat the cache
+ */
+export function normalizeCoordinate(value: number): string {
+  return value.toFixed(6);
+}
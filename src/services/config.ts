@@ -0,0 +1,173 @@
+// Service configuration: endpoints, headers and keys for geocoding, routing, imagery and map tiles.
+// Defaults come from REACT_APP_* env vars and can be overridden at runtime from the settings panel.
+
+export type ImageryProviderType = 'mapillary' | 'fixture';
+
+export interface ServiceEndpoint {
+  /** Base URL (or URL template with {z}/{x}/{y} for tiles) */
+  url: string;
+  /** Extra request headers, e.g. for an authenticating proxy */
+  headers: Record<string, string>;
+  /** API key appended as a query parameter when set */
+  apiKey: string;
+  /** Name of the query parameter that carries the API key */
+  apiKeyParam: string;
+}
+
+export interface ImageryServiceConfig extends ServiceEndpoint {
+  provider: ImageryProviderType;
+  /** Catalogue read by the fixture provider */
+  fixtureUrl: string;
+}
+
+export interface ServiceConfig {
+  geocoder: ServiceEndpoint;
+  router: ServiceEndpoint;
+  imagery: ImageryServiceConfig;
+  tiles: ServiceEndpoint;
+}
+
+export type ServiceName = keyof ServiceConfig;
+
+const STORAGE_KEY = 'serviceConfig';
+
+function parseHeaders(value: string | undefined): Record<string, string> {
+  if (!value) return {};
+  try {
+    const parsed = JSON.parse(value);
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch (error) {
+    console.error('Ignoring invalid headers JSON in environment:', value);
+    return {};
+  }
+}
+
+/**
+ * Configuration from env vars alone, without runtime overrides
+ */
+export function getDefaultServiceConfig(): ServiceConfig {
+  const env = process.env;
+  return {
+    geocoder: {
+      url: env.REACT_APP_GEOCODER_URL || 'https://nominatim.openstreetmap.org/search',
+      headers: {
+        'User-Agent': 'MapillaryDrivingSimulator/1.0',
+        ...parseHeaders(env.REACT_APP_GEOCODER_HEADERS),
+      },
+      apiKey: env.REACT_APP_GEOCODER_API_KEY || '',
+      apiKeyParam: env.REACT_APP_GEOCODER_API_KEY_PARAM || 'key',
+    },
+    router: {
+      url: env.REACT_APP_ROUTER_URL || 'https://router.project-osrm.org',
+      headers: parseHeaders(env.REACT_APP_ROUTER_HEADERS),
+      apiKey: env.REACT_APP_ROUTER_API_KEY || '',
+      apiKeyParam: env.REACT_APP_ROUTER_API_KEY_PARAM || 'key',
+    },
+    imagery: {
+      provider: (env.REACT_APP_IMAGERY_PROVIDER as ImageryProviderType) || 'mapillary',
+      url: env.REACT_APP_IMAGERY_URL || 'https://graph.mapillary.com',
+      headers: parseHeaders(env.REACT_APP_IMAGERY_HEADERS),
+      apiKey: env.REACT_APP_MAPILLARY_TOKEN || '',
+      apiKeyParam: 'access_token',
+      fixtureUrl: env.REACT_APP_IMAGERY_FIXTURE_URL || `${env.PUBLIC_URL}/fixtures/imagery.json`,
+    },
+    tiles: {
+      url: env.REACT_APP_TILES_URL || 'https://tile.openstreetmap.org/{z}/{x}/{y}.png',
+      headers: {},
+      apiKey: env.REACT_APP_TILES_API_KEY || '',
+      apiKeyParam: env.REACT_APP_TILES_API_KEY_PARAM || 'apikey',
+    },
+  };
+}
+
+function loadOverrides(): Partial<ServiceConfig> {
+  // Workers have no localStorage; they are handed the configuration instead
+  if (typeof window === 'undefined') return {};
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.error('Could not read service settings:', error);
+    return {};
+  }
+}
+
+function mergeConfig(base: ServiceConfig, overrides: Partial<ServiceConfig>): ServiceConfig {
+  return {
+    geocoder: { ...base.geocoder, ...overrides.geocoder },
+    router: { ...base.router, ...overrides.router },
+    imagery: { ...base.imagery, ...overrides.imagery },
+    tiles: { ...base.tiles, ...overrides.tiles },
+  };
+}
+
+let currentConfig: ServiceConfig = mergeConfig(getDefaultServiceConfig(), loadOverrides());
+
+/**
+ * Active configuration (env defaults merged with runtime overrides)
+ */
+export function getServiceConfig(): ServiceConfig {
+  return currentConfig;
+}
+
+/**
+ * Use a configuration for this session only, e.g. one handed to a worker by the main thread
+ */
+export function applyServiceConfig(config: ServiceConfig): void {
+  currentConfig = config;
+}
+
+/**
+ * Replace the active configuration and persist it for the next session
+ */
+export function setServiceConfig(config: ServiceConfig): void {
+  currentConfig = config;
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+  } catch (error) {
+    console.error('Could not save service settings:', error);
+  }
+}
+
+/**
+ * Drop runtime overrides and go back to the env var defaults
+ */
+export function resetServiceConfig(): void {
+  currentConfig = getDefaultServiceConfig();
+  try {
+    window.localStorage.removeItem(STORAGE_KEY);
+  } catch (error) {
+    console.error('Could not clear service settings:', error);
+  }
+}
+
+/**
+ * Build a request URL for an endpoint, appending the query params and its API key
+ */
+export function buildServiceUrl(
+  endpoint: ServiceEndpoint,
+  path: string = '',
+  params?: URLSearchParams
+): string {
+  const query = new URLSearchParams(params);
+  if (endpoint.apiKey) {
+    query.set(endpoint.apiKeyParam, endpoint.apiKey);
+  }
+  const base = endpoint.url.replace(/\/+$/, '');
+  const queryString = query.toString();
+  return `${base}${path}${queryString ? `?${queryString}` : ''}`;
+}
+
+/**
+ * Resolve a {z}/{x}/{y} tile URL template for a given tile
+ */
+export function buildTileUrl(tiles: ServiceEndpoint, zoom: number, x: number, y: number): string {
+  const url = tiles.url
+    .replace('{z}', String(zoom))
+    .replace('{x}', String(x))
+    .replace('{y}', String(y));
+
+  if (!tiles.apiKey) return url;
+  const separator = url.includes('?') ? '&' : '?';
+  return `${url}${separator}${encodeURIComponent(tiles.apiKeyParam)}=${encodeURIComponent(tiles.apiKey)}`;
+}
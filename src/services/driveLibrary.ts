@@ -0,0 +1,266 @@
+// Saved drives library: finished drives kept in IndexedDB so they can be replayed without any API calls.
+// Image files are stored alongside the metadata when requested, so replay works fully offline.
+
+import type { RouteFormData } from '../components/RouteForm';
+import { createLimiter } from './http';
+import { DriveFrame, Waypoint, WaypointStatus } from '../utils/drive';
+import { RouteManeuver } from '../utils/guidance';
+import { getRouteLength } from '../utils/playback';
+import { serializeDriveLink } from '../utils/deepLink';
+
+/**
+ * Everything needed to replay a drive
+ */
+export interface SavedDrive {
+  id: string;
+  name: string;
+  /** Milliseconds since epoch */
+  createdAt: number;
+  /** Identifies the inputs, so running the same drive again updates its entry instead of adding one */
+  driveKey: string;
+  form: RouteFormData;
+  routeIndex?: number;
+  route: [number, number][];
+  waypoints: Waypoint[];
+  waypointStatuses: WaypointStatus[];
+  waypointRejections: string[];
+  maneuvers: RouteManeuver[];
+  frames: DriveFrame[];
+  /** Image files were downloaded with the drive */
+  hasImages: boolean;
+}
+
+export type NewSavedDrive = Omit<SavedDrive, 'id' | 'createdAt' | 'driveKey' | 'hasImages'>;
+
+/**
+ * Library listing entry, without the heavy route and frame data
+ */
+export interface SavedDriveSummary {
+  id: string;
+  name: string;
+  createdAt: number;
+  driveKey: string;
+  profile: RouteFormData['profile'];
+  frameCount: number;
+  routeLengthMeters: number;
+  hasImages: boolean;
+}
+
+const DB_NAME = 'mapillary-simulator-library';
+const DB_VERSION = 1;
+// Summaries are kept apart from the drives so listing the library doesn't load every frame
+const SUMMARY_STORE = 'summaries';
+const DRIVE_STORE = 'drives';
+// Image files keyed by [driveId, frame index]
+const IMAGE_STORE = 'images';
+const IMAGE_DOWNLOAD_CONCURRENCY = 4;
+const SAVE_IMAGES_KEY = 'driveLibrarySaveImages';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('Saved drives need IndexedDB, which is unavailable in this browser'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore(SUMMARY_STORE, { keyPath: 'id' }).createIndex('createdAt', 'createdAt');
+        db.createObjectStore(DRIVE_STORE, { keyPath: 'id' });
+        db.createObjectStore(IMAGE_STORE);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call try again, e.g. after the user allows storage
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function completeTransaction(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+function toSummary(drive: SavedDrive): SavedDriveSummary {
+  return {
+    id: drive.id,
+    name: drive.name,
+    createdAt: drive.createdAt,
+    driveKey: drive.driveKey,
+    profile: drive.form.profile,
+    frameCount: drive.frames.length,
+    routeLengthMeters: getRouteLength(drive.route),
+    hasImages: drive.hasImages,
+  };
+}
+
+/**
+ * Default name for a drive, e.g. "San Diego → Los Angeles" or the imported track's name
+ */
+export function getDefaultDriveName(form: RouteFormData): string {
+  if (form.track) return form.track.name;
+  const stops = form.stops.map((stop) => stop.split(',')[0].trim());
+  return stops.length > 0 ? `${stops[0]} → ${stops[stops.length - 1]}` : 'Untitled drive';
+}
+
+/**
+ * Whether finished drives are saved with their images (a per-browser preference)
+ */
+export function getSaveImagesPreference(): boolean {
+  try {
+    return localStorage.getItem(SAVE_IMAGES_KEY) === '1';
+  } catch {
+    return false;
+  }
+}
+
+export function setSaveImagesPreference(saveImages: boolean): void {
+  try {
+    localStorage.setItem(SAVE_IMAGES_KEY, saveImages ? '1' : '0');
+  } catch (error) {
+    console.error('Failed to save library preference:', error);
+  }
+}
+
+/**
+ * Download the frames' images, by frame index. Frames that fail are left out and replay from their URL instead.
+ */
+export async function downloadFrameImages(
+  frames: DriveFrame[],
+  onProgress?: (done: number, total: number) => void
+): Promise<Map<number, Blob>> {
+  const limit = createLimiter(IMAGE_DOWNLOAD_CONCURRENCY);
+  const images = new Map<number, Blob>();
+  let done = 0;
+
+  await Promise.all(frames.map((frame, index) => limit(async () => {
+    try {
+      const response = await fetch(frame.thumbUrl);
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      images.set(index, await response.blob());
+    } catch (error) {
+      console.warn(`Could not download image for frame ${index + 1}:`, error);
+    }
+    onProgress?.(++done, frames.length);
+  })));
+
+  return images;
+}
+
+/**
+ * Key for a drive's inputs: the shareable link without playback settings
+ */
+export function getDriveKey(form: RouteFormData, routeIndex?: number): string {
+  return serializeDriveLink({ form, routeIndex });
+}
+
+/**
+ * Add a drive to the library, optionally downloading its images first. A drive with the same
+ * inputs as a saved one (e.g. a reloaded or shared link) replaces it, keeping its id and name.
+ */
+export async function saveDrive(
+  drive: NewSavedDrive,
+  { includeImages = false, onProgress }: { includeImages?: boolean; onProgress?: (done: number, total: number) => void } = {}
+): Promise<SavedDriveSummary> {
+  const images = includeImages ? await downloadFrameImages(drive.frames, onProgress) : new Map<number, Blob>();
+  const driveKey = getDriveKey(drive.form, drive.routeIndex);
+  const existing = (await listSavedDrives()).find((summary) => summary.driveKey === driveKey);
+  const saved: SavedDrive = {
+    ...drive,
+    id: existing ? existing.id : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    name: existing ? existing.name : drive.name,
+    createdAt: Date.now(),
+    driveKey,
+    hasImages: images.size > 0,
+  };
+  const summary = toSummary(saved);
+
+  const db = await openDatabase();
+  const transaction = db.transaction([SUMMARY_STORE, DRIVE_STORE, IMAGE_STORE], 'readwrite');
+  transaction.objectStore(SUMMARY_STORE).put(summary);
+  transaction.objectStore(DRIVE_STORE).put(saved);
+  // The previous run's images belong to its own frames
+  transaction.objectStore(IMAGE_STORE).delete(IDBKeyRange.bound([saved.id, 0], [saved.id, Infinity]));
+  images.forEach((blob, index) => transaction.objectStore(IMAGE_STORE).put(blob, [saved.id, index]));
+  await completeTransaction(transaction);
+
+  console.log(`${existing ? 'Updated' : 'Saved'} drive "${saved.name}" with ${saved.frames.length} frames (${images.size} images)`);
+  return summary;
+}
+
+/**
+ * Saved drives, newest first
+ */
+export async function listSavedDrives(): Promise<SavedDriveSummary[]> {
+  const db = await openDatabase();
+  const store = db.transaction(SUMMARY_STORE, 'readonly').objectStore(SUMMARY_STORE);
+  const summaries = await promisifyRequest<SavedDriveSummary[]>(store.getAll());
+  return summaries.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export async function getSavedDrive(id: string): Promise<SavedDrive | undefined> {
+  const db = await openDatabase();
+  const store = db.transaction(DRIVE_STORE, 'readonly').objectStore(DRIVE_STORE);
+  return promisifyRequest<SavedDrive | undefined>(store.get(id));
+}
+
+/**
+ * Stored image files of a drive, by frame index
+ */
+export async function getSavedDriveImages(id: string): Promise<Map<number, Blob>> {
+  const db = await openDatabase();
+  const store = db.transaction(IMAGE_STORE, 'readonly').objectStore(IMAGE_STORE);
+  const range = IDBKeyRange.bound([id, 0], [id, Infinity]);
+  const [keys, blobs] = await Promise.all([
+    promisifyRequest(store.getAllKeys(range)),
+    promisifyRequest<Blob[]>(store.getAll(range)),
+  ]);
+
+  const images = new Map<number, Blob>();
+  keys.forEach((key, i) => images.set((key as [string, number])[1], blobs[i]));
+  return images;
+}
+
+export async function renameSavedDrive(id: string, name: string): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction([SUMMARY_STORE, DRIVE_STORE], 'readwrite');
+  const summaries = transaction.objectStore(SUMMARY_STORE);
+  const drives = transaction.objectStore(DRIVE_STORE);
+
+  const [summary, drive] = await Promise.all([
+    promisifyRequest<SavedDriveSummary | undefined>(summaries.get(id)),
+    promisifyRequest<SavedDrive | undefined>(drives.get(id)),
+  ]);
+  if (!summary || !drive) throw new Error('Saved drive not found');
+
+  summaries.put({ ...summary, name });
+  drives.put({ ...drive, name });
+  await completeTransaction(transaction);
+}
+
+export async function deleteSavedDrive(id: string): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction([SUMMARY_STORE, DRIVE_STORE, IMAGE_STORE], 'readwrite');
+  transaction.objectStore(SUMMARY_STORE).delete(id);
+  transaction.objectStore(DRIVE_STORE).delete(id);
+  transaction.objectStore(IMAGE_STORE).delete(IDBKeyRange.bound([id, 0], [id, Infinity]));
+  await completeTransaction(transaction);
+}
@@ -0,0 +1,188 @@
+/**
+ * @jest-environment node
+ */
+import { Blob } from 'buffer';
+import type { SavedDrive } from './driveLibrary';
+import { exportDrivePackage, getPackageFileName, openDrivePackage } from './drivePackage';
+import { createZip, readZip } from '../utils/zip';
+import { DEFAULT_CAPTURE_FILTER } from '../utils/captureDate';
+
+// Node has Blob, but Jest's Node environment doesn't expose it
+Object.assign(globalThis, { Blob });
+
+const encoder = new TextEncoder();
+
+const drive: SavedDrive = {
+  id: 'abc',
+  name: 'Harbor → Park',
+  createdAt: Date.UTC(2024, 0, 2),
+  driveKey: 'stop=Harbor&stop=Park',
+  hasImages: true,
+  form: {
+    stops: ['Harbor', 'Park'],
+    profile: 'walking',
+    spacingMeters: 10,
+    includePanoramas: false,
+    captureFilter: DEFAULT_CAPTURE_FILTER,
+  },
+  routeIndex: 1,
+  route: [[32.7, -117.17], [32.71, -117.16], [32.72, -117.15]],
+  waypoints: [
+    { coord: [32.7, -117.17], bearing: 40 },
+    { coord: [32.71, -117.16], bearing: 42 },
+  ],
+  waypointStatuses: ['found', 'found'],
+  waypointRejections: ['', '2 too far'],
+  maneuvers: [{ location: [32.7, -117.17], distanceAlongMeters: 0, type: 'depart', instruction: 'Start walking' }],
+  frames: [
+    {
+      id: '111',
+      thumbUrl: 'https://example.com/111.jpg',
+      computedCompassAngle: 41,
+      geometry: { coordinates: [-117.17, 32.7] },
+      isPano: false,
+      capturedAt: Date.UTC(2023, 5, 1),
+      sequenceId: 'seq-1',
+      waypointIndex: 0,
+      bearing: 40,
+    },
+    {
+      id: '222',
+      thumbUrl: 'https://example.com/222.jpg',
+      geometry: { coordinates: [-117.16, 32.71] },
+      isPano: true,
+      lowConfidence: true,
+      waypointIndex: 1,
+      bearing: 42,
+    },
+  ],
+};
+
+const images = new Map([
+  [0, new Blob([new Uint8Array([1, 2, 3])], { type: 'image/jpeg' })],
+  [1, new Blob([new Uint8Array([4, 5])], { type: 'image/png' })],
+]) as unknown as Map<number, globalThis.Blob>;
+
+// Package holding just the given manifest
+const packageWith = (manifest: unknown) =>
+  createZip([{ name: 'manifest.json', data: encoder.encode(JSON.stringify(manifest)) }]);
+
+describe('drive packages', () => {
+  it('round-trips a drive with its images', async () => {
+    const zip = await exportDrivePackage(drive, images);
+
+    const files = await readZip(await zip.arrayBuffer());
+    expect(Array.from(files.keys())).toEqual([
+      'manifest.json',
+      'route.geojson',
+      'images/00001-111.jpg',
+      'images/00002-222.png',
+    ]);
+
+    const opened = await openDrivePackage(zip);
+    const { id, createdAt, driveKey, hasImages, ...expected } = drive;
+    expect(opened.drive).toEqual({
+      ...expected,
+      frames: [
+        { ...drive.frames[0], lowConfidence: false },
+        { ...drive.frames[1], computedCompassAngle: undefined, capturedAt: undefined, sequenceId: undefined },
+      ],
+    });
+    expect(Array.from(opened.images.keys())).toEqual([0, 1]);
+    expect(opened.images.get(1)?.type).toBe('image/png');
+    expect(new Uint8Array(await opened.images.get(1)!.arrayBuffer())).toEqual(new Uint8Array([4, 5]));
+  });
+
+  it('rejects archives that are not drive packages', async () => {
+    await expect(openDrivePackage(createZip([]))).rejects.toThrow('Not a drive package: manifest.json is missing');
+    await expect(openDrivePackage(packageWith({ format: 'something-else' }))).rejects.toThrow(
+      'Not a drive package: unknown manifest format'
+    );
+    await expect(
+      openDrivePackage(createZip([{ name: 'manifest.json', data: encoder.encode('{ nope') }]))
+    ).rejects.toThrow('Not a drive package: manifest.json is not valid JSON');
+  });
+
+  it('checks the version, waypoints and frames of the manifest', async () => {
+    const manifest = JSON.parse(new TextDecoder().decode(
+      (await readZip(await (await exportDrivePackage(drive, images)).arrayBuffer())).get('manifest.json')
+    ));
+
+    await expect(openDrivePackage(packageWith({ ...manifest, version: 'one' }))).rejects.toThrow(
+      'Not a drive package: the manifest has no valid version'
+    );
+    await expect(openDrivePackage(packageWith({ ...manifest, version: 99 }))).rejects.toThrow(
+      'Drive package version 99 needs a newer version of this app'
+    );
+    await expect(openDrivePackage(packageWith({ ...manifest, waypoints: undefined }))).rejects.toThrow(
+      'Not a drive package: waypoints are missing or malformed'
+    );
+    await expect(openDrivePackage(packageWith({ ...manifest, waypoints: [{ latitude: '32.7' }] }))).rejects.toThrow(
+      'Not a drive package: waypoints are missing or malformed'
+    );
+    await expect(openDrivePackage(packageWith({ ...manifest, frames: {} }))).rejects.toThrow(
+      'Not a drive package: frames are missing or malformed'
+    );
+    await expect(
+      openDrivePackage(packageWith({ ...manifest, frames: [{ ...manifest.frames[0], waypointIndex: 5 }] }))
+    ).rejects.toThrow('Not a drive package: frames are missing or malformed');
+  });
+
+  it('falls back to the remote image and a known profile', async () => {
+    const manifest = JSON.parse(new TextDecoder().decode(
+      (await readZip(await (await exportDrivePackage(drive, images)).arrayBuffer())).get('manifest.json')
+    ));
+    const opened = await openDrivePackage(packageWith({
+      ...manifest,
+      form: { ...manifest.form, profile: 'hovercraft' },
+      waypoints: manifest.waypoints.map((waypoint: object) => ({ ...waypoint, status: 'lost' })),
+    }));
+
+    expect(opened.images.size).toBe(0);
+    expect(opened.drive.frames[0].thumbUrl).toBe('https://example.com/111.jpg');
+    expect(opened.drive.form.profile).toBe('driving');
+    expect(opened.drive.waypointStatuses).toEqual(['pending', 'pending']);
+    expect(opened.drive.route).toEqual([]);
+  });
+  it('fills in a partial or malformed form with defaults', async () => {
+    const manifest = JSON.parse(new TextDecoder().decode(
+      (await readZip(await (await exportDrivePackage(drive, images)).arrayBuffer())).get('manifest.json')
+    ));
+    const opened = await openDrivePackage(packageWith({
+      ...manifest,
+      routeIndex: 'second',
+      form: {
+        stops: ['Harbor', 7, 'Park'],
+        profile: 'cycling',
+        spacingMeters: -10,
+        captureFilter: { months: [1, 13, 'June'], preferNewest: 'yes' },
+        track: { name: 'Broken', coordinates: [[32.7]] },
+      },
+    }));
+
+    expect(opened.drive.form).toEqual({
+      stops: ['Harbor', 'Park'],
+      profile: 'cycling',
+      spacingMeters: 25,
+      includePanoramas: false,
+      captureFilter: { months: [1], preferNewest: false },
+    });
+    expect(opened.drive.routeIndex).toBeUndefined();
+
+    const bare = await openDrivePackage(packageWith({ ...manifest, form: {} }));
+    expect(bare.drive.form).toEqual({
+      stops: [],
+      profile: 'driving',
+      spacingMeters: 50,
+      includePanoramas: false,
+      captureFilter: DEFAULT_CAPTURE_FILTER,
+    });
+  });
+});
+
+describe('getPackageFileName', () => {
+  it('makes a file-system friendly name', () => {
+    expect(getPackageFileName('San Diego → Los Angeles')).toBe('San-Diego-Los-Angeles.zip');
+    expect(getPackageFileName('→')).toBe('drive.zip');
+  });
+});
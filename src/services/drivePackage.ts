@@ -0,0 +1,353 @@
+// Portable drive packages: a zip with the frame images, a JSON manifest and the route as GeoJSON,
+// so a drive can be handed to someone without a Mapillary token and played with no API calls.
+
+import type { RouteFormData } from '../components/RouteForm';
+import { NewSavedDrive, downloadFrameImages } from './driveLibrary';
+import { DriveFrame, WaypointStatus, getFrameCoordinate } from '../utils/drive';
+import { RouteManeuver } from '../utils/guidance';
+import { TRAVEL_PROFILES, DEFAULT_PROFILE, TravelProfile } from '../utils/profiles';
+import { CaptureDateFilter, DEFAULT_CAPTURE_FILTER } from '../utils/captureDate';
+import type { ImportedTrack } from '../utils/trackImport';
+import { driveToGeoJSON } from '../utils/routeExport';
+import { createZip, readZip, ZipEntry } from '../utils/zip';
+
+const PACKAGE_FORMAT = 'mapillary-drive-package';
+const PACKAGE_VERSION = 1;
+const MANIFEST_FILE = 'manifest.json';
+const ROUTE_FILE = 'route.geojson';
+
+const IMAGE_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+};
+
+/**
+ * Frame entry of the manifest, in playback order
+ */
+export interface DrivePackageFrame {
+  /** Position in playback order, from 0 */
+  order: number;
+  /** Mapillary image ID */
+  id: string;
+  /** Path of the image inside the package, or null when it could not be downloaded */
+  image: string | null;
+  latitude: number;
+  longitude: number;
+  /** Camera direction, degrees clockwise from north */
+  compassAngle: number | null;
+  /** Route bearing at the waypoint the image was chosen for */
+  bearing: number;
+  /** Capture time in milliseconds since epoch */
+  capturedAt: number | null;
+  isPano: boolean;
+  sequenceId: string | null;
+  lowConfidence: boolean;
+  waypointIndex: number;
+  /** Page of the image on mapillary.com, for attribution */
+  sourceUrl: string;
+  /** Original image URL, used when the file is missing from the package; these links expire */
+  remoteUrl: string;
+}
+
+export interface DrivePackageManifest {
+  format: typeof PACKAGE_FORMAT;
+  version: number;
+  name: string;
+  /** ISO 8601 */
+  createdAt: string;
+  exportedAt: string;
+  /** Inputs the drive was generated from */
+  form: RouteFormData;
+  routeIndex?: number;
+  attribution: {
+    imagery: string;
+    imageryLicense: string;
+    imageryLicenseUrl: string;
+    route: string;
+  };
+  /** Route line, sampled waypoints and image points */
+  routeFile: string;
+  frames: DrivePackageFrame[];
+  waypoints: Array<{ latitude: number; longitude: number; bearing: number; status: WaypointStatus; rejection: string }>;
+  maneuvers: RouteManeuver[];
+}
+
+function imageExtension(blob: Blob): string {
+  const match = Object.keys(IMAGE_TYPES).find((extension) => IMAGE_TYPES[extension] === blob.type);
+  return match || 'jpg';
+}
+
+async function blobToBytes(blob: Blob): Promise<Uint8Array> {
+  return new Uint8Array(await blob.arrayBuffer());
+}
+
+/**
+ * File name for a drive package, e.g. "San Diego → Los Angeles.zip" becomes "San-Diego-Los-Angeles.zip"
+ */
+export function getPackageFileName(name: string): string {
+  const slug = name.replace(/[^\w-]+/g, '-').replace(/^-+|-+$/g, '');
+  return `${slug || 'drive'}.zip`;
+}
+
+/**
+ * Bundle a drive into a zip package. Images missing from storedImages are downloaded first.
+ * Drives that were never saved count as created now.
+ */
+export async function exportDrivePackage(
+  drive: NewSavedDrive & { createdAt?: number },
+  storedImages: Map<number, Blob>,
+  onProgress?: (done: number, total: number) => void
+): Promise<Blob> {
+  const missingIndexes = drive.frames.map((_, index) => index).filter((index) => !storedImages.has(index));
+  const downloaded = await downloadFrameImages(
+    missingIndexes.map((index) => drive.frames[index]),
+    (done) => onProgress?.(drive.frames.length - missingIndexes.length + done, drive.frames.length)
+  );
+
+  const images = new Map(storedImages);
+  downloaded.forEach((blob, i) => images.set(missingIndexes[i], blob));
+
+  const entries: ZipEntry[] = [];
+  const imagePaths: Array<string | null> = [];
+  for (let index = 0; index < drive.frames.length; index++) {
+    const blob = images.get(index);
+    if (!blob) {
+      imagePaths.push(null);
+      continue;
+    }
+    const path = `images/${String(index + 1).padStart(5, '0')}-${drive.frames[index].id}.${imageExtension(blob)}`;
+    imagePaths.push(path);
+    entries.push({ name: path, data: await blobToBytes(blob) });
+  }
+
+  const frames: DrivePackageFrame[] = drive.frames.map((frame, index) => {
+    const [latitude, longitude] = getFrameCoordinate(frame);
+    return {
+      order: index,
+      id: frame.id,
+      image: imagePaths[index],
+      latitude,
+      longitude,
+      compassAngle: frame.computedCompassAngle ?? null,
+      bearing: frame.bearing,
+      capturedAt: frame.capturedAt ?? null,
+      isPano: Boolean(frame.isPano),
+      sequenceId: frame.sequenceId ?? null,
+      lowConfidence: Boolean(frame.lowConfidence),
+      waypointIndex: frame.waypointIndex,
+      sourceUrl: `https://www.mapillary.com/app/?pKey=${frame.id}`,
+      remoteUrl: frame.thumbUrl,
+    };
+  });
+
+  const manifest: DrivePackageManifest = {
+    format: PACKAGE_FORMAT,
+    version: PACKAGE_VERSION,
+    name: drive.name,
+    createdAt: new Date(drive.createdAt ?? Date.now()).toISOString(),
+    exportedAt: new Date().toISOString(),
+    form: drive.form,
+    routeIndex: drive.routeIndex,
+    attribution: {
+      imagery: 'Street-level imagery © Mapillary contributors',
+      imageryLicense: 'CC BY-SA 4.0',
+      imageryLicenseUrl: 'https://creativecommons.org/licenses/by-sa/4.0/',
+      route: 'Route data © OpenStreetMap contributors (ODbL), routed with OSRM',
+    },
+    routeFile: ROUTE_FILE,
+    frames,
+    waypoints: drive.waypoints.map((waypoint, index) => ({
+      latitude: waypoint.coord[0],
+      longitude: waypoint.coord[1],
+      bearing: waypoint.bearing,
+      status: drive.waypointStatuses[index] || 'pending',
+      rejection: drive.waypointRejections[index] || '',
+    })),
+    maneuvers: drive.maneuvers,
+  };
+
+  // Image points in the GeoJSON link to the files in the package rather than the remote URLs
+  const geoJSON = driveToGeoJSON({
+    route: drive.route,
+    waypoints: drive.waypoints,
+    frames: drive.frames.map((frame, index) => ({ ...frame, thumbUrl: imagePaths[index] || frame.thumbUrl })),
+  });
+
+  const encoder = new TextEncoder();
+  entries.unshift(
+    { name: MANIFEST_FILE, data: encoder.encode(JSON.stringify(manifest, null, 2)) },
+    { name: ROUTE_FILE, data: encoder.encode(JSON.stringify(geoJSON, null, 2)) }
+  );
+
+  return createZip(entries);
+}
+
+interface GeoJSONFeature {
+  geometry?: { type?: string; coordinates?: unknown };
+  properties?: { kind?: string };
+}
+
+// Route line of a driveToGeoJSON collection, as [lat, lon] pairs
+function readRouteLine(geoJSON: { features?: GeoJSONFeature[] }): [number, number][] {
+  const line = (geoJSON.features || []).find(
+    (feature) => feature.properties?.kind === 'route' && feature.geometry?.type === 'LineString'
+  );
+  const coordinates = (line?.geometry?.coordinates || []) as [number, number][];
+  return coordinates.map(([lon, lat]) => [lat, lon]);
+}
+
+const WAYPOINT_STATUSES: WaypointStatus[] = ['pending', 'found', 'duplicate', 'missing'];
+
+function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && isFinite(value);
+}
+
+function isPackageWaypoint(value: unknown): boolean {
+  const waypoint = value as Partial<DrivePackageManifest['waypoints'][number]> | null;
+  return Boolean(waypoint) && isNumber(waypoint!.latitude) && isNumber(waypoint!.longitude) && isNumber(waypoint!.bearing);
+}
+
+function isPackageFrame(value: unknown, waypointCount: number): boolean {
+  const frame = value as Partial<DrivePackageFrame> | null;
+  return Boolean(frame)
+    && typeof frame!.id === 'string'
+    && typeof frame!.remoteUrl === 'string'
+    && (frame!.image === null || typeof frame!.image === 'string')
+    && [frame!.order, frame!.latitude, frame!.longitude, frame!.bearing].every(isNumber)
+    && isNumber(frame!.waypointIndex) && frame!.waypointIndex >= 0 && frame!.waypointIndex < waypointCount;
+}
+
+function isImportedTrack(value: unknown): value is ImportedTrack {
+  const track = value as Partial<ImportedTrack> | null | undefined;
+  return typeof track?.name === 'string'
+    && Array.isArray(track.coordinates)
+    && track.coordinates.length >= 2
+    && track.coordinates.every((point) => Array.isArray(point) && isNumber(point[0]) && isNumber(point[1]));
+}
+
+// Route inputs of a manifest, with defaults for anything missing or malformed, so going back
+// to the form or running the drive again works whatever the package holds
+function readPackageForm(value: Partial<Record<keyof RouteFormData, unknown>>): RouteFormData {
+  const profile = typeof value.profile === 'string' && value.profile in TRAVEL_PROFILES
+    ? (value.profile as TravelProfile)
+    : DEFAULT_PROFILE;
+  const filter = (value.captureFilter && typeof value.captureFilter === 'object' ? value.captureFilter : {}) as
+    Partial<Record<keyof CaptureDateFilter, unknown>>;
+
+  return {
+    stops: Array.isArray(value.stops) ? value.stops.filter((stop): stop is string => typeof stop === 'string') : [],
+    profile,
+    spacingMeters: isNumber(value.spacingMeters) && value.spacingMeters > 0
+      ? value.spacingMeters
+      : TRAVEL_PROFILES[profile].waypointSpacingMeters,
+    includePanoramas: value.includePanoramas === true,
+    captureFilter: {
+      ...DEFAULT_CAPTURE_FILTER,
+      from: typeof filter.from === 'string' ? filter.from : undefined,
+      to: typeof filter.to === 'string' ? filter.to : undefined,
+      months: Array.isArray(filter.months)
+        ? filter.months.filter((month): month is number => Number.isInteger(month) && month >= 1 && month <= 12)
+        : [],
+      preferNewest: filter.preferNewest === true,
+    },
+    track: isImportedTrack(value.track) ? value.track : undefined,
+  };
+}
+
+/**
+ * Check the parts of a manifest that playback relies on; packages come from elsewhere,
+ * so anything can be in them. Optional fields are defaulted when the drive is read.
+ */
+function validateManifest(value: unknown): DrivePackageManifest {
+  const manifest = value as Partial<DrivePackageManifest> | null;
+  if (!manifest || typeof manifest !== 'object' || manifest.format !== PACKAGE_FORMAT) {
+    throw new Error('Not a drive package: unknown manifest format');
+  }
+  if (!isNumber(manifest.version) || manifest.version < 1) {
+    throw new Error('Not a drive package: the manifest has no valid version');
+  }
+  if (manifest.version > PACKAGE_VERSION) {
+    throw new Error(`Drive package version ${manifest.version} needs a newer version of this app`);
+  }
+  if (typeof manifest.name !== 'string' || !manifest.form || typeof manifest.form !== 'object') {
+    throw new Error('Not a drive package: the manifest has no drive name or route inputs');
+  }
+  const waypoints = manifest.waypoints;
+  if (!Array.isArray(waypoints) || !waypoints.every(isPackageWaypoint)) {
+    throw new Error('Not a drive package: waypoints are missing or malformed');
+  }
+  if (!Array.isArray(manifest.frames) || !manifest.frames.every((frame) => isPackageFrame(frame, waypoints.length))) {
+    throw new Error('Not a drive package: frames are missing or malformed');
+  }
+  return manifest as DrivePackageManifest;
+}
+
+/**
+ * Read a drive package. Images come back by frame index; frames without one keep their remote URL.
+ */
+export async function openDrivePackage(file: Blob): Promise<{ drive: NewSavedDrive; images: Map<number, Blob> }> {
+  const files = await readZip(await file.arrayBuffer());
+  const decoder = new TextDecoder();
+
+  const manifestData = files.get(MANIFEST_FILE);
+  if (!manifestData) {
+    throw new Error('Not a drive package: manifest.json is missing');
+  }
+  let manifestJSON: unknown;
+  try {
+    manifestJSON = JSON.parse(decoder.decode(manifestData));
+  } catch {
+    throw new Error('Not a drive package: manifest.json is not valid JSON');
+  }
+  const manifest = validateManifest(manifestJSON);
+
+  const routeData = files.get(typeof manifest.routeFile === 'string' ? manifest.routeFile : ROUTE_FILE);
+  let route: [number, number][] = [];
+  if (routeData) {
+    try {
+      route = readRouteLine(JSON.parse(decoder.decode(routeData)));
+    } catch {
+      throw new Error('Not a drive package: the route file is not valid GeoJSON');
+    }
+  }
+
+  const images = new Map<number, Blob>();
+  const frames: DriveFrame[] = [...manifest.frames]
+    .sort((a, b) => a.order - b.order)
+    .map((frame, index) => {
+      const data = frame.image ? files.get(frame.image) : undefined;
+      if (data) {
+        const extension = frame.image!.split('.').pop() || '';
+        images.set(index, new Blob([data], { type: IMAGE_TYPES[extension] || 'image/jpeg' }));
+      }
+      return {
+        id: frame.id,
+        thumbUrl: frame.remoteUrl,
+        computedCompassAngle: isNumber(frame.compassAngle) ? frame.compassAngle : undefined,
+        geometry: { coordinates: [frame.longitude, frame.latitude] },
+        isPano: Boolean(frame.isPano),
+        capturedAt: isNumber(frame.capturedAt) ? frame.capturedAt : undefined,
+        sequenceId: typeof frame.sequenceId === 'string' ? frame.sequenceId : undefined,
+        lowConfidence: Boolean(frame.lowConfidence),
+        waypointIndex: frame.waypointIndex,
+        bearing: frame.bearing,
+      };
+    });
+
+  const { routeIndex } = manifest;
+  return {
+    drive: {
+      name: manifest.name,
+      form: readPackageForm(manifest.form),
+      routeIndex: isNumber(routeIndex) && Number.isInteger(routeIndex) && routeIndex >= 0 ? routeIndex : undefined,
+      route,
+      waypoints: manifest.waypoints.map(({ latitude, longitude, bearing }) => ({ coord: [latitude, longitude], bearing })),
+      waypointStatuses: manifest.waypoints.map(({ status }) => (WAYPOINT_STATUSES.includes(status) ? status : 'pending')),
+      waypointRejections: manifest.waypoints.map(({ rejection }) => (typeof rejection === 'string' ? rejection : '')),
+      maneuvers: Array.isArray(manifest.maneuvers) ? manifest.maneuvers : [],
+      frames,
+    },
+    images,
+  };
+}
@@ -0,0 +1,412 @@
+// Route-to-images pipeline: geocoding, routing, waypoint sampling, image search and deduplication.
+// Runs inside the drive worker (see src/workers/drive.worker.ts) and reports back through events.
+// Route planning (runRoutePlanning) runs in a worker of its own first, while the user waits to pick a route.
+
+import type { RouteFormData } from '../components/RouteForm';
+import {
+  ImageSearchOptions,
+  MapillaryImage,
+  RouteResult,
+  geocodeAddress,
+  getRoute,
+  getRouteAlternatives,
+  getMapillaryImagesBatch,
+} from './api';
+import { getDefaultImageryProvider } from './imagery';
+import { ServiceConfig, applyServiceConfig } from './config';
+import {
+  ScoringConfig,
+  SelectionResult,
+  applyScoringConfig,
+  summarizeRejections,
+  createSequenceSelector,
+} from './scoring';
+import { isAbortError } from './http';
+import { generateEvenlySpacedPoints, distance } from '../utils/calculations';
+import { TRAVEL_PROFILES } from '../utils/profiles';
+import { DriveFrame, Waypoint, WaypointStatus } from '../utils/drive';
+import { RouteManeuver } from '../utils/guidance';
+
+/**
+ * Everything the pipeline needs; settings are passed in because workers cannot read localStorage
+ */
+export interface DriveRequest {
+  form: RouteFormData;
+  serviceConfig: ServiceConfig;
+  scoringConfig: ScoringConfig;
+  /** Which of the OSRM alternative routes to drive (see planRouteOptions); the best one when unset */
+  routeIndex?: number;
+  /** Route picked from the planned options, driven as is; fetched again by routeIndex when unset (e.g. from a link) */
+  route?: RouteResult;
+}
+
+/**
+ * Inputs for planning the routes to choose from
+ */
+export type PlanRequest = Omit<DriveRequest, 'routeIndex' | 'route'>;
+
+/**
+ * Candidate route offered before the drive starts
+ */
+export interface RouteOption {
+  route: RouteResult;
+  /** Share of the sampled waypoints with an acceptable image, 0-100 */
+  coverageScore: number;
+  /** Waypoints searched for the estimate; 0 when there was nothing to compare it with (a single route) */
+  sampledWaypoints: number;
+}
+
+/** Main thread -> worker */
+export type DriveCommand = { type: 'start'; request: DriveRequest } | { type: 'plan'; request: PlanRequest };
+
+/** Worker -> main thread, while planning */
+export type PlanEvent =
+  | { type: 'progress'; progress: number; message: string }
+  | { type: 'options'; options: RouteOption[] }
+  | { type: 'error'; name: string; message: string };
+
+/** Worker -> main thread */
+export type DriveEvent =
+  | { type: 'progress'; progress: number; message: string }
+  /** Route and waypoints are known; every waypoint starts out pending */
+  | { type: 'route'; route: [number, number][]; waypoints: Waypoint[]; maneuvers: RouteManeuver[] }
+  /** Settled results for waypoints startWaypoint.. onwards, plus the frames they added */
+  | {
+      type: 'batch';
+      startWaypoint: number;
+      statuses: WaypointStatus[];
+      rejections: string[];
+      frames: DriveFrame[];
+    }
+  | { type: 'done' }
+  | { type: 'error'; name: string; message: string };
+
+// Waypoints searched per batch; searches within a batch run concurrently (see getMapillaryImagesBatch)
+const BATCH_SIZE = 12;
+const KM_PER_DEGREE = 111.32;
+// Waypoints searched per alternative to estimate its coverage; enough to tell routes apart, cheap enough to wait for
+const COVERAGE_SAMPLES = 8;
+
+const parseCoordinateInput = (input: string): string => {
+  // Check if it's already in coordinate format
+  const trimmed = input.trim();
+  if (trimmed.includes(',')) {
+    const parts = trimmed.split(',').map((s) => s.trim());
+    if (parts.length === 2) {
+      const lat = parseFloat(parts[0]);
+      const lon = parseFloat(parts[1]);
+
+      if (!isNaN(lat) && !isNaN(lon)) {
+        // Validate lat/lon ranges
+        if (lat >= -90 && lat <= 90 && lon >= -180 && lon <= 180) {
+          // Input is lat,lon - convert to lon,lat for OSRM
+          console.log(`Parsed coordinates: lat=${lat}, lon=${lon} -> OSRM format: ${lon},${lat}`);
+          return `${lon},${lat}`;
+        } else {
+          throw new Error(`Invalid coordinates: lat must be -90 to 90, lon must be -180 to 180. Got: ${lat},${lon}`);
+        }
+      }
+    }
+  }
+  return input; // Return as-is for geocoding
+};
+
+const isCoordinates = (input: string): boolean => {
+  const trimmed = input.trim();
+  // Must contain exactly one comma
+  const parts = trimmed.split(',');
+  if (parts.length !== 2) return false;
+
+  // Both parts must be valid numbers
+  const first = parseFloat(parts[0].trim());
+  const second = parseFloat(parts[1].trim());
+
+  if (isNaN(first) || isNaN(second)) return false;
+
+  // Check if they're in valid lat/lon ranges
+  // Could be lat,lon or lon,lat format
+  const isLatLon = first >= -90 && first <= 90 && second >= -180 && second <= 180;
+  const isLonLat = second >= -90 && second <= 90 && first >= -180 && first <= 180;
+
+  return isLatLon || isLonLat;
+};
+
+// Returns the stop in lon,lat format, geocoding it first if it is an address
+const resolveStop = async (stop: string, signal: AbortSignal): Promise<string> => {
+  if (isCoordinates(stop)) {
+    const coords = parseCoordinateInput(stop);
+    console.log('Stop is coordinates:', coords);
+    return coords;
+  }
+  console.log('Geocoding stop address:', stop);
+  return geocodeAddress(stop, signal);
+};
+
+// Parse or geocode every stop in order
+const resolveStops = async (
+  stops: string[],
+  onProgress: (progress: number, message: string) => void,
+  signal: AbortSignal
+): Promise<string[]> => {
+  const stopCoords: string[] = [];
+  for (let i = 0; i < stops.length; i++) {
+    onProgress(10 + Math.floor((i / stops.length) * 20), `Geocoding stop ${i + 1} of ${stops.length}...`);
+    stopCoords.push(await resolveStop(stops[i], signal));
+  }
+  console.log('Stop coords (lon,lat):', stopCoords);
+  return stopCoords;
+};
+
+const getSearchOptions = (form: RouteFormData): ImageSearchOptions => ({
+  preferredCameraMakes: TRAVEL_PROFILES[form.profile].preferredCameraMakes,
+  includePanoramas: form.includePanoramas,
+  captureFilter: form.captureFilter,
+});
+
+/**
+ * Fetch the alternative routes for the form's stops and estimate each one's imagery coverage by
+ * searching a few evenly spread waypoints. A single route is returned without an estimate, since
+ * there is nothing to choose. Runs on the current thread with the active settings.
+ */
+export async function planRouteOptions(
+  form: RouteFormData,
+  onProgress: (progress: number, message: string) => void,
+  signal: AbortSignal
+): Promise<RouteOption[]> {
+  const stopCoords = await resolveStops(form.stops, onProgress, signal);
+
+  onProgress(30, 'Fetching routes...');
+  const routes = await getRouteAlternatives(stopCoords, TRAVEL_PROFILES[form.profile].osrmProfile, signal);
+  if (routes.length === 0) {
+    throw new Error('No route found through these locations');
+  }
+
+  if (routes.length === 1) {
+    return [{ route: routes[0], coverageScore: 0, sampledWaypoints: 0 }];
+  }
+
+  const imageryProvider = getDefaultImageryProvider();
+  const options: RouteOption[] = [];
+
+  for (let r = 0; r < routes.length; r++) {
+    const route = routes[r];
+    onProgress(40 + Math.floor((r / routes.length) * 60), `Checking imagery along route ${r + 1} of ${routes.length}...`);
+
+    const spacedPoints = generateEvenlySpacedPoints(route.coordinates, form.spacingMeters);
+    const sampleCount = Math.min(COVERAGE_SAMPLES, spacedPoints.length);
+    const samples = Array.from({ length: sampleCount }, (_, k) => {
+      const index = sampleCount > 1 ? Math.round((k * (spacedPoints.length - 1)) / (sampleCount - 1)) : 0;
+      const { coord, bearing } = spacedPoints[index];
+      return { coord, heading: bearing };
+    });
+
+    const results = await getMapillaryImagesBatch(samples, getSearchOptions(form), imageryProvider, signal);
+    const covered = results.filter((result) => result.winner).length;
+    options.push({
+      route,
+      coverageScore: samples.length > 0 ? (covered / samples.length) * 100 : 0,
+      sampledWaypoints: samples.length,
+    });
+  }
+
+  return options;
+}
+
+/**
+ * Plan the routes for a drive, reporting progress and the options (or an error) through emit.
+ * An aborted plan stops quietly without a final event.
+ */
+export async function runRoutePlanning(
+  { form, serviceConfig, scoringConfig }: PlanRequest,
+  emit: (event: PlanEvent) => void,
+  signal: AbortSignal
+): Promise<void> {
+  applyServiceConfig(serviceConfig);
+  applyScoringConfig(scoringConfig);
+
+  try {
+    const options = await planRouteOptions(
+      form,
+      (progress, message) => emit({ type: 'progress', progress, message }),
+      signal
+    );
+    if (signal.aborted) return;
+    emit({ type: 'options', options });
+  } catch (error) {
+    if (isAbortError(error) || signal.aborted) return;
+    console.error('Error planning route:', error);
+    emit({
+      type: 'error',
+      name: error instanceof Error ? error.name : 'Error',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Positions of the frames kept so far, bucketed in a grid about minDistanceKm wide so the
+ * spacing check only compares against nearby frames instead of every earlier one
+ */
+function createSpacingIndex(minDistanceKm: number) {
+  const cellDegrees = Math.max(minDistanceKm / KM_PER_DEGREE, 1e-6);
+  const cells = new Map<string, [number, number][]>();
+  const cellOf = ([lat, lon]: [number, number]) => [Math.floor(lat / cellDegrees), Math.floor(lon / cellDegrees)];
+
+  return {
+    isTooClose(coord: [number, number]): boolean {
+      const [row, col] = cellOf(coord);
+      // A degree of longitude shrinks towards the poles, so look further sideways there
+      const lonReach = Math.ceil(1 / Math.max(Math.cos(coord[0] * Math.PI / 180), 0.01));
+      for (let r = row - 1; r <= row + 1; r++) {
+        for (let c = col - lonReach; c <= col + lonReach; c++) {
+          const nearby = cells.get(`${r}:${c}`);
+          if (nearby && nearby.some((used) => distance(coord, used) < minDistanceKm)) {
+            return true;
+          }
+        }
+      }
+      return false;
+    },
+    add(coord: [number, number]) {
+      const key = cellOf(coord).join(':');
+      cells.set(key, [...(cells.get(key) || []), coord]);
+    },
+  };
+}
+
+/**
+ * Run a drive from form input to frames, reporting progress, route, frames and errors through emit.
+ * An aborted drive stops quietly without a final event.
+ */
+export async function runDrivePipeline(
+  { form, serviceConfig, scoringConfig, routeIndex, route: chosenRoute }: DriveRequest,
+  emit: (event: DriveEvent) => void,
+  signal: AbortSignal
+): Promise<void> {
+  applyServiceConfig(serviceConfig);
+  applyScoringConfig(scoringConfig);
+  const profileSettings = TRAVEL_PROFILES[form.profile];
+
+  try {
+    let routeCoords: [number, number][];
+    // Imported tracks have no turn-by-turn steps
+    let maneuvers: RouteManeuver[] = [];
+
+    if (form.track) {
+      // An uploaded track is already the exact path, so skip geocoding and routing
+      console.log(`Using imported track "${form.track.name}" with ${form.track.coordinates.length} points`);
+      routeCoords = form.track.coordinates;
+    } else if (chosenRoute) {
+      // The route the user picked; asking OSRM again could return the alternatives in another order
+      routeCoords = chosenRoute.coordinates;
+      maneuvers = chosenRoute.maneuvers;
+    } else {
+      const stopCoords = await resolveStops(
+        form.stops,
+        (progress, message) => emit({ type: 'progress', progress, message }),
+        signal
+      );
+
+      emit({ type: 'progress', progress: 30, message: 'Fetching route...' });
+      const route = await getRoute(stopCoords, profileSettings.osrmProfile, signal, routeIndex);
+      routeCoords = route.coordinates;
+      maneuvers = route.maneuvers;
+    }
+
+    if (routeCoords.length === 0) {
+      throw new Error('No route found through these locations');
+    }
+
+    // Generate evenly spaced points along the route (spacing depends on the travel profile)
+    // This ensures we get images at regular intervals instead of clustering
+    emit({ type: 'progress', progress: 30, message: 'Generating evenly spaced waypoints...' });
+    const spacedPoints = generateEvenlySpacedPoints(routeCoords, form.spacingMeters);
+    console.log(`Route has ${routeCoords.length} points, generated ${spacedPoints.length} evenly spaced waypoints`);
+    emit({ type: 'route', route: routeCoords, waypoints: spacedPoints, maneuvers });
+    emit({ type: 'progress', progress: 35, message: 'Fetching images in parallel batches...' });
+
+    const imageryProvider = getDefaultImageryProvider();
+    console.log('Using imagery provider:', imageryProvider.name);
+
+    const pointsToFetch = spacedPoints.map(({ coord, bearing }) => ({ coord, heading: bearing }));
+    const usedImageIds = new Set<string>();
+    const spacing = createSpacingIndex(profileSettings.minImageDistanceMeters / 1000);
+    let uniqueFrames = 0;
+    // Picks images across batch edges, staying in one capture sequence where scores allow
+    const selector = createSequenceSelector(scoringConfig);
+    const results: SelectionResult[] = [];
+    // Waypoints before this one have had their image settled and reported
+    let settledWaypoints = 0;
+
+    const reportSettled = (selection: Array<MapillaryImage | null>) => {
+      if (selection.length === 0) return;
+      const startWaypoint = settledWaypoints;
+      const statuses: WaypointStatus[] = [];
+      const rejections: string[] = [];
+      const frames: DriveFrame[] = [];
+
+      selection.forEach((imageData, offset) => {
+        const waypointIndex = startWaypoint + offset;
+        const result = results[waypointIndex];
+        if (result.error) {
+          rejections.push(`search failed: ${result.error}`);
+        } else {
+          rejections.push(result.rejections.length > 0
+            ? summarizeRejections(result.rejections)
+            : imageData ? '' : 'no images nearby');
+        }
+        if (!imageData) {
+          console.debug(`No image for waypoint ${waypointIndex + 1}:`, result.rejections);
+          statuses.push('missing');
+          return;
+        }
+
+        const [imgLon, imgLat] = imageData.geometry.coordinates;
+        const imageCoord: [number, number] = [imgLat, imgLon];
+        if (usedImageIds.has(imageData.id) || spacing.isTooClose(imageCoord)) {
+          statuses.push('duplicate');
+          return;
+        }
+
+        frames.push({ ...imageData, waypointIndex, bearing: pointsToFetch[waypointIndex].heading });
+        statuses.push('found');
+        usedImageIds.add(imageData.id);
+        spacing.add(imageCoord);
+      });
+
+      settledWaypoints += selection.length;
+      uniqueFrames += frames.length;
+      emit({ type: 'batch', startWaypoint, statuses, rejections, frames });
+    };
+
+    for (let i = 0; i < pointsToFetch.length; i += BATCH_SIZE) {
+      // Results served from the cache never hit an aborted fetch, so check explicitly
+      if (signal.aborted) return;
+
+      const batch = pointsToFetch.slice(i, i + BATCH_SIZE);
+      const batchResults = await getMapillaryImagesBatch(batch, getSearchOptions(form), imageryProvider, signal);
+      if (signal.aborted) return;
+
+      results.push(...batchResults);
+      reportSettled(selector.push(batchResults));
+
+      const fetched = Math.min(i + BATCH_SIZE, pointsToFetch.length);
+      emit({
+        type: 'progress',
+        progress: 35 + Math.floor((fetched / pointsToFetch.length) * 65),
+        message: `Fetched ${fetched}/${pointsToFetch.length} images (${uniqueFrames} unique)`,
+      });
+    }
+
+    reportSettled(selector.finish());
+    emit({ type: 'done' });
+  } catch (error) {
+    if (isAbortError(error) || signal.aborted) return;
+    console.error('Error generating route:', error);
+    emit({
+      type: 'error',
+      name: error instanceof Error ? error.name : 'Error',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
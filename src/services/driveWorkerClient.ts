@@ -0,0 +1,94 @@
+// Starts the drive pipeline and route planning in a Web Worker, falling back to the main thread where workers are unavailable
+
+import {
+  DriveCommand,
+  DriveEvent,
+  DriveRequest,
+  PlanEvent,
+  PlanRequest,
+  runDrivePipeline,
+  runRoutePlanning,
+} from './drivePipeline';
+
+export interface DriveHandle {
+  /** Stop the drive or planning; no further events are delivered */
+  cancel: () => void;
+}
+
+type WorkerEvent = DriveEvent | PlanEvent;
+
+/**
+ * Run a command in a fresh worker (or on this thread via runHere), delivering its events until
+ * isFinal says it is over or it is cancelled
+ */
+function runInBackground<E extends WorkerEvent>(
+  command: DriveCommand,
+  runHere: (emit: (event: E) => void, signal: AbortSignal) => Promise<void>,
+  isFinal: (event: E) => boolean,
+  onEvent: (event: E) => void
+): DriveHandle {
+  let cancelled = false;
+  const deliver = (event: E) => {
+    if (!cancelled) onEvent(event);
+  };
+
+  if (typeof Worker === 'undefined') {
+    console.warn(`Web Workers unavailable, running the ${command.type === 'plan' ? 'route planning' : 'drive'} on the main thread`);
+    const controller = new AbortController();
+    runHere(deliver, controller.signal);
+    return {
+      cancel: () => {
+        cancelled = true;
+        controller.abort();
+      },
+    };
+  }
+
+  const worker = new Worker(new URL('../workers/drive.worker.ts', import.meta.url));
+  // A finished or failed run has nothing left to do, so don't keep the worker (and its connections) alive
+  worker.onmessage = (event: MessageEvent<E>) => {
+    deliver(event.data);
+    if (isFinal(event.data)) {
+      worker.terminate();
+    }
+  };
+  worker.onerror = (event) => {
+    console.error('Drive worker failed:', event);
+    deliver({ type: 'error', name: 'Error', message: event.message || 'Drive worker failed' } as E);
+    worker.terminate();
+  };
+  worker.postMessage(command);
+
+  return {
+    cancel: () => {
+      cancelled = true;
+      // Terminating drops in-flight requests along with the worker
+      worker.terminate();
+    },
+  };
+}
+
+/**
+ * Run a drive in the background, calling onEvent for each progress, route, batch, done or error event
+ */
+export function startDrive(request: DriveRequest, onEvent: (event: DriveEvent) => void): DriveHandle {
+  return runInBackground<DriveEvent>(
+    { type: 'start', request },
+    (emit, signal) => runDrivePipeline(request, emit, signal),
+    (event) => event.type === 'done' || event.type === 'error',
+    onEvent
+  );
+}
+
+/**
+ * Plan the routes for a drive in the background, calling onEvent for each progress event and
+ * finally the route options or an error
+ */
+export function planRoutes(request: PlanRequest, onEvent: (event: PlanEvent) => void): DriveHandle {
+  return runInBackground<PlanEvent>(
+    { type: 'plan', request },
+    (emit, signal) => runRoutePlanning(request, emit, signal),
+    (event) => event.type === 'options' || event.type === 'error',
+    onEvent
+  );
+}
@@ -0,0 +1,131 @@
+import { ApiError, AuthError, RateLimitError, createLimiter, fetchWithRetry, isAbortError, sleep } from './http';
+
+// Just enough of a Response for fetchWithRetry
+function response(status: number, body = '', headers: Record<string, string> = {}): Response {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: status === 200 ? 'OK' : 'Error',
+    headers: { get: (name: string) => headers[name] ?? null },
+    text: async () => body,
+  } as unknown as Response;
+}
+
+const options = { service: 'Test', retries: 2, baseDelayMs: 1, maxDelayMs: 10 };
+let fetchMock: jest.Mock;
+
+beforeEach(() => {
+  fetchMock = jest.fn();
+  global.fetch = fetchMock;
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('fetchWithRetry', () => {
+  it('retries server errors and network failures until a response is ok', async () => {
+    fetchMock
+      .mockResolvedValueOnce(response(503))
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+      .mockResolvedValueOnce(response(200, 'fine'));
+
+    const result = await fetchWithRetry('https://example.com', {}, options);
+    expect(await result.text()).toBe('fine');
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('gives up after the last retry with the message from the response body', async () => {
+    fetchMock.mockResolvedValue(response(500, JSON.stringify({ code: 'Oops', message: 'Database is down' })));
+
+    const error = await fetchWithRetry('https://example.com', {}, options).catch((e) => e);
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error.status).toBe(500);
+    expect(error.message).toBe('Test request failed: 500 Error (Database is down)');
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('fails client errors straight away, reading nested and plain-text messages', async () => {
+    fetchMock.mockResolvedValueOnce(response(400, JSON.stringify({ error: { message: 'Bad bbox' } })));
+    await expect(fetchWithRetry('https://example.com', {}, options)).rejects.toThrow('(Bad bbox)');
+
+    fetchMock.mockResolvedValueOnce(response(404, 'x'.repeat(300)));
+    await expect(fetchWithRetry('https://example.com', {}, options)).rejects.toThrow(`(${'x'.repeat(200)}...)`);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('reports rejected credentials as an AuthError', async () => {
+    fetchMock.mockResolvedValue(response(401));
+    await expect(fetchWithRetry('https://example.com', {}, options)).rejects.toBeInstanceOf(AuthError);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops at once when Retry-After asks for longer than the longest delay', async () => {
+    fetchMock.mockResolvedValue(response(429, '', { 'Retry-After': '60' }));
+
+    const error = await fetchWithRetry('https://example.com', {}, options).catch((e) => e);
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error.retryAfterMs).toBe(60000);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports a service that cannot be reached with status 0', async () => {
+    fetchMock.mockRejectedValue(new TypeError('Failed to fetch'));
+    await expect(fetchWithRetry('https://example.com', {}, options)).rejects.toMatchObject({
+      status: 0,
+      message: 'Test could not be reached: Failed to fetch',
+    });
+  });
+
+  it('does not retry aborted requests', async () => {
+    const abort = new Error('aborted');
+    abort.name = 'AbortError';
+    fetchMock.mockRejectedValue(abort);
+
+    await expect(fetchWithRetry('https://example.com', {}, options)).rejects.toBe(abort);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('sleep', () => {
+  it('rejects with an AbortError when the signal fires', async () => {
+    const controller = new AbortController();
+    const waiting = sleep(10000, controller.signal);
+    controller.abort();
+
+    const error = await waiting.catch((e) => e);
+    expect(isAbortError(error)).toBe(true);
+  });
+});
+
+describe('createLimiter', () => {
+  it('keeps at most the given number of tasks in flight, in order', async () => {
+    const limit = createLimiter(2);
+    const started: number[] = [];
+    let active = 0;
+    let mostActive = 0;
+
+    const results = await Promise.all([1, 2, 3, 4, 5].map((n) => limit(async () => {
+      started.push(n);
+      active++;
+      mostActive = Math.max(mostActive, active);
+      await sleep(5);
+      active--;
+      return n * 10;
+    })));
+
+    expect(results).toEqual([10, 20, 30, 40, 50]);
+    expect(started).toEqual([1, 2, 3, 4, 5]);
+    expect(mostActive).toBe(2);
+  });
+
+  it('carries on after a task fails', async () => {
+    const limit = createLimiter(1);
+    const failing = limit(() => Promise.reject(new Error('nope')));
+    const next = limit(async () => 'ok');
+
+    await expect(failing).rejects.toThrow('nope');
+    await expect(next).resolves.toBe('ok');
+  });
+});
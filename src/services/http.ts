@@ -0,0 +1,208 @@
+// Shared HTTP helpers: typed errors, retry with backoff, abortable waits and a concurrency limiter
+
+/**
+ * Request to a service failed with an HTTP error or a network failure
+ */
+export class ApiError extends Error {
+  /** HTTP status, or 0 when the request never got a response */
+  status: number;
+  service: string;
+
+  constructor(service: string, status: number, message: string) {
+    super(message);
+    this.name = 'ApiError';
+    this.service = service;
+    this.status = status;
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+/**
+ * Service kept answering 429 Too Many Requests after every retry
+ */
+export class RateLimitError extends ApiError {
+  retryAfterMs: number;
+
+  constructor(service: string, retryAfterMs: number) {
+    super(service, 429, `${service} rate limit reached, try again in ${Math.ceil(retryAfterMs / 1000)}s`);
+    this.name = 'RateLimitError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * Service rejected the credentials (missing or invalid API key / token)
+ */
+export class AuthError extends ApiError {
+  constructor(service: string, status: number) {
+    super(service, status, `${service} rejected the request (${status}); check the API key in settings`);
+    this.name = 'AuthError';
+  }
+}
+
+export interface RetryOptions {
+  /** Name used in error messages, e.g. "Mapillary" */
+  service: string;
+  retries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+const DEFAULT_RETRIES = 3;
+const DEFAULT_BASE_DELAY_MS = 500;
+const DEFAULT_MAX_DELAY_MS = 30000;
+
+/**
+ * Whether the error comes from an aborted request or wait
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError';
+}
+
+function createAbortError(): Error {
+  const error = new Error('The operation was aborted');
+  error.name = 'AbortError';
+  return error;
+}
+
+/**
+ * Wait for the given time, rejecting with an AbortError as soon as the signal fires
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(createAbortError());
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Delay requested by a Retry-After header (seconds or HTTP date), if any
+ */
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (!isNaN(seconds)) return Math.max(seconds * 1000, 0);
+  const date = Date.parse(header);
+  return isNaN(date) ? null : Math.max(date - Date.now(), 0);
+}
+
+/**
+ * Error text a service put in its response body, e.g. OSRM's {"code":"NoRoute","message":"..."}
+ * or Mapillary's {"error":{"message":"..."}}; falls back to the raw text
+ */
+async function readErrorMessage(response: Response): Promise<string | null> {
+  let text: string;
+  try {
+    text = (await response.text()).trim();
+  } catch {
+    return null;
+  }
+  if (!text) return null;
+  try {
+    const body = JSON.parse(text);
+    const message = body?.message ?? body?.error?.message ?? body?.error;
+    if (typeof message === 'string' && message) return message;
+  } catch {
+    // Not JSON; use the text as is
+  }
+  return text.length > 200 ? `${text.slice(0, 200)}...` : text;
+}
+
+async function failedRequestError(service: string, response: Response): Promise<ApiError> {
+  const detail = await readErrorMessage(response);
+  return new ApiError(
+    service,
+    response.status,
+    `${service} request failed: ${response.status} ${response.statusText}${detail ? ` (${detail})` : ''}`
+  );
+}
+
+/**
+ * fetch() that retries network failures, 429s and 5xx responses with exponential backoff
+ * (honouring Retry-After) and throws typed errors for everything else that is not ok
+ */
+export async function fetchWithRetry(
+  url: string,
+  init: RequestInit,
+  { service, retries = DEFAULT_RETRIES, baseDelayMs = DEFAULT_BASE_DELAY_MS, maxDelayMs = DEFAULT_MAX_DELAY_MS }: RetryOptions
+): Promise<Response> {
+  for (let attempt = 0; ; attempt++) {
+    const backoffMs = Math.min(baseDelayMs * 2 ** attempt, maxDelayMs) * (0.75 + Math.random() * 0.5);
+
+    let response: Response;
+    try {
+      response = await fetch(url, init);
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      if (attempt >= retries) {
+        throw new ApiError(service, 0, `${service} could not be reached: ${error instanceof Error ? error.message : error}`);
+      }
+      console.warn(`${service} request failed, retrying in ${Math.round(backoffMs)}ms:`, error);
+      await sleep(backoffMs, init.signal || undefined);
+      continue;
+    }
+
+    if (response.ok) return response;
+
+    if (response.status === 401 || response.status === 403) {
+      throw new AuthError(service, response.status);
+    }
+
+    const retryable = response.status === 429 || response.status >= 500;
+    if (!retryable) {
+      throw await failedRequestError(service, response);
+    }
+
+    const retryAfterMs = parseRetryAfter(response.headers.get('Retry-After'));
+    if (attempt >= retries || (retryAfterMs !== null && retryAfterMs > maxDelayMs)) {
+      if (response.status === 429) {
+        throw new RateLimitError(service, retryAfterMs ?? backoffMs);
+      }
+      throw await failedRequestError(service, response);
+    }
+
+    const delayMs = retryAfterMs ?? backoffMs;
+    console.warn(`${service} answered ${response.status}, retrying in ${Math.round(delayMs)}ms`);
+    await sleep(delayMs, init.signal || undefined);
+  }
+}
+
+/**
+ * Run async tasks with at most `concurrency` of them in flight at once
+ */
+export function createLimiter(concurrency: number) {
+  let active = 0;
+  const queue: Array<() => void> = [];
+
+  const next = () => {
+    if (active >= concurrency || queue.length === 0) return;
+    active++;
+    queue.shift()!();
+  };
+
+  return function limit<T>(task: () => Promise<T>): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      queue.push(() => {
+        task()
+          .then(resolve, reject)
+          .finally(() => {
+            active--;
+            next();
+          });
+      });
+      next();
+    });
+  };
+}
@@ -0,0 +1,56 @@
+import { parseFixtureCatalogue } from './imagery';
+
+const record = {
+  id: '1',
+  thumb_2048_url: 'https://example.com/1.jpg',
+  computed_compass_angle: 90,
+  geometry: { coordinates: [-122.42, 37.76] as [number, number] },
+};
+
+describe('parseFixtureCatalogue', () => {
+  it('accepts a plain array of image records, dropping records without a position', () => {
+    expect(parseFixtureCatalogue([record, { id: '2' }])).toEqual([record]);
+  });
+
+  it('accepts a recorded Mapillary response', () => {
+    expect(parseFixtureCatalogue({ data: [record] })).toEqual([record]);
+  });
+
+  it('maps GeoJSON point features and their alternative property names', () => {
+    const catalogue = parseFixtureCatalogue({
+      type: 'FeatureCollection',
+      features: [
+        {
+          type: 'Feature',
+          geometry: { type: 'Point', coordinates: [-122.42, 37.76, 12] },
+          properties: { id: 7, thumb_url: 'a.jpg', compass_angle: 180, sequence_id: 'seq' },
+        },
+        { type: 'Feature', geometry: { type: 'LineString', coordinates: [] }, properties: {} },
+      ],
+    });
+
+    expect(catalogue).toEqual([
+      expect.objectContaining({
+        id: '7',
+        thumb_2048_url: 'a.jpg',
+        computed_compass_angle: 180,
+        geometry: { coordinates: [-122.42, 37.76] },
+        sequence: 'seq',
+      }),
+    ]);
+  });
+
+  it('reads the bundled sample catalogue', () => {
+    const sample = require('../../public/fixtures/imagery.json');
+    const catalogue = parseFixtureCatalogue(sample);
+    expect(catalogue.length).toBeGreaterThan(0);
+    catalogue.forEach((image) => {
+      expect(image.thumb_2048_url).toBeTruthy();
+      expect(typeof image.computed_compass_angle).toBe('number');
+    });
+  });
+
+  it('rejects anything else', () => {
+    expect(() => parseFixtureCatalogue({ foo: 'bar' })).toThrow(/Unrecognised imagery catalogue/);
+  });
+});
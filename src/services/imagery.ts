@@ -0,0 +1,130 @@
+// Imagery providers: interchangeable sources of street-level images along a route
+
+import {
+  MapillaryApiImage,
+  ImageSearchOptions,
+  searchMapillaryImages,
+  getSearchBbox,
+} from './api';
+import { SelectionResult, searchWithWidening } from './scoring';
+import { getServiceConfig } from './config';
+
+export interface ImageryProvider {
+  id: string;
+  name: string;
+  /**
+   * Score the images around a waypoint coordinate ([lat, lon]) against its heading
+   */
+  searchImages: (
+    coord: [number, number],
+    heading: number,
+    options?: ImageSearchOptions,
+    signal?: AbortSignal
+  ) => Promise<SelectionResult>;
+}
+
+/**
+ * Live imagery from the Mapillary Graph API
+ */
+export const mapillaryProvider: ImageryProvider = {
+  id: 'mapillary',
+  name: 'Mapillary',
+  searchImages: searchMapillaryImages,
+};
+
+/**
+ * Parse a local image catalogue into Mapillary API records.
+ * Accepts any of:
+ * - an array of Mapillary image records
+ * - a recorded Mapillary response ({ data: [...] })
+ * - a GeoJSON FeatureCollection of Points whose properties hold the image fields
+ *   (`thumb_2048_url` or `thumb_url`, `computed_compass_angle` or `compass_angle`)
+ */
+export function parseFixtureCatalogue(json: any): MapillaryApiImage[] {
+  if (Array.isArray(json)) {
+    return json.filter(isImageRecord);
+  }
+
+  if (json && Array.isArray(json.data)) {
+    return json.data.filter(isImageRecord);
+  }
+
+  if (json && json.type === 'FeatureCollection' && Array.isArray(json.features)) {
+    return json.features
+      .filter((feature: any) => feature?.geometry?.type === 'Point')
+      .map((feature: any, index: number): MapillaryApiImage => {
+        const props = feature.properties || {};
+        return {
+          id: String(props.id ?? feature.id ?? `fixture-${index}`),
+          thumb_2048_url: props.thumb_2048_url ?? props.thumb_url ?? props.thumbUrl,
+          computed_compass_angle: props.computed_compass_angle ?? props.compass_angle,
+          geometry: { coordinates: feature.geometry.coordinates.slice(0, 2) as [number, number] },
+          captured_at: props.captured_at,
+          is_pano: props.is_pano,
+          make: props.make,
+          sequence: props.sequence ?? props.sequence_id,
+        };
+      });
+  }
+
+  throw new Error('Unrecognised imagery catalogue: expected an image array, { data: [...] } or a GeoJSON FeatureCollection');
+}
+
+function isImageRecord(record: any): record is MapillaryApiImage {
+  return Boolean(record && record.id && record.geometry?.coordinates);
+}
+
+/**
+ * Offline imagery read from a JSON/GeoJSON catalogue, either already parsed or fetched from a URL.
+ * Candidates are filtered with the same bounding box and scoring as the Mapillary provider.
+ */
+export function createFixtureProvider(source: string | MapillaryApiImage[]): ImageryProvider {
+  let cataloguePromise: Promise<MapillaryApiImage[]> | null = null;
+
+  const loadCatalogue = (): Promise<MapillaryApiImage[]> => {
+    if (!cataloguePromise) {
+      cataloguePromise = typeof source === 'string'
+        ? fetch(source)
+            .then((response) => {
+              if (!response.ok) {
+                throw new Error(`Could not load imagery catalogue: ${response.statusText}`);
+              }
+              return response.json();
+            })
+            .then(parseFixtureCatalogue)
+        : Promise.resolve(source);
+    }
+    return cataloguePromise;
+  };
+
+  return {
+    id: 'fixture',
+    name: 'Local catalogue',
+    searchImages: async (coord, heading, options) => {
+      const catalogue = await loadCatalogue();
+
+      const fetchCandidates = async (radiusMeters: number) => {
+        const [minLon, minLat, maxLon, maxLat] = getSearchBbox(coord, radiusMeters);
+        return catalogue.filter((image) => {
+          const [lon, lat] = image.geometry!.coordinates;
+          return lon >= minLon && lon <= maxLon && lat >= minLat && lat <= maxLat;
+        });
+      };
+
+      return searchWithWidening(fetchCandidates, coord, heading, options);
+    },
+  };
+}
+
+/**
+ * Provider selected in the imagery service configuration ("mapillary" or "fixture")
+ */
+export function getDefaultImageryProvider(): ImageryProvider {
+  const { imagery } = getServiceConfig();
+
+  if (imagery.provider === 'fixture') {
+    return createFixtureProvider(imagery.fixtureUrl);
+  }
+
+  return mapillaryProvider;
+}
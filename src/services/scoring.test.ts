@@ -0,0 +1,257 @@
+import type { MapillaryApiImage } from './api';
+import {
+  DEFAULT_SCORING_CONFIG,
+  ScoringConfig,
+  SelectionResult,
+  createSequenceSelector,
+  getWideningSteps,
+  headingDifference,
+  scoreCandidates,
+  searchWithWidening,
+  selectAlongSequences,
+  summarizeRejections,
+} from './scoring';
+
+const waypoint: [number, number] = [37.76, -122.42];
+// Roughly one meter of latitude, in degrees
+const METER = 1 / 111195;
+
+const config: ScoringConfig = { ...DEFAULT_SCORING_CONFIG };
+
+// Image a given number of meters north of the waypoint, facing north unless told otherwise
+function image(id: string, metersNorth: number, overrides: Partial<MapillaryApiImage> = {}): MapillaryApiImage {
+  return {
+    id,
+    thumb_2048_url: `https://example.com/${id}.jpg`,
+    computed_compass_angle: 0,
+    captured_at: Date.parse('2021-06-01'),
+    geometry: { coordinates: [waypoint[1], waypoint[0] + metersNorth * METER] },
+    ...overrides,
+  };
+}
+
+describe('headingDifference', () => {
+  it('takes the short way round the compass', () => {
+    expect(headingDifference(10, 350)).toBe(20);
+    expect(headingDifference(90, 270)).toBe(180);
+    expect(headingDifference(45, 45)).toBe(0);
+  });
+});
+
+describe('scoreCandidates', () => {
+  it('records why each candidate was rejected', () => {
+    const result = scoreCandidates(
+      [
+        image('thumbless', 1, { thumb_2048_url: undefined }),
+        image('pano', 1, { is_pano: true }),
+        image('headless', 1, { computed_compass_angle: undefined }),
+        image('far', 30),
+        image('sideways', 1, { computed_compass_angle: 90 }),
+        image('old', 1, { captured_at: Date.parse('2015-06-01') }),
+      ],
+      waypoint,
+      0,
+      { captureFilter: { from: '2020-01-01', months: [], preferNewest: false } },
+      config
+    );
+
+    expect(result.winner).toBeNull();
+    expect(result.rejections.map(({ id, reason }) => [id, reason])).toEqual([
+      ['thumbless', 'no-thumbnail'],
+      ['pano', 'panorama'],
+      ['headless', 'no-heading'],
+      ['far', 'too-far'],
+      ['sideways', 'heading-mismatch'],
+      ['old', 'capture-date'],
+    ]);
+    expect(summarizeRejections(result.rejections)).toBe(
+      '1 no thumbnail, 1 panorama, 1 no compass angle, 1 too far, 1 wrong heading, 1 outside capture dates'
+    );
+  });
+
+  it('measures distance in meters', () => {
+    const result = scoreCandidates([image('a', 10)], waypoint, 0, {}, config);
+    expect(result.ranked[0].distanceMeters).toBeCloseTo(10, 1);
+
+    const tooFar = scoreCandidates([image('b', 25)], waypoint, 0, {}, config);
+    expect(tooFar.rejections[0].detail).toMatch(/^25\.0m away \(limit 20m\)$/);
+  });
+
+  it('weighs heading and distance, marking the losers as outscored', () => {
+    const result = scoreCandidates(
+      [image('far-straight', 10), image('near-angled', 2, { computed_compass_angle: 10 })],
+      waypoint,
+      0,
+      {},
+      config
+    );
+
+    // 10m * 0.5 = 5 beats 10° * 3 + 2m * 0.5 = 31
+    expect(result.winner?.id).toBe('far-straight');
+    expect(result.ranked[0].score).toBeCloseTo(5, 1);
+    expect(result.ranked[1].score).toBeCloseTo(31, 1);
+    expect(result.rejections).toEqual([expect.objectContaining({ id: 'near-angled', reason: 'outscored' })]);
+
+    const headingLight = scoreCandidates(
+      [image('far-straight', 10), image('near-angled', 2, { computed_compass_angle: 10 })],
+      waypoint,
+      0,
+      {},
+      { ...config, headingWeight: 0.1 }
+    );
+    expect(headingLight.winner?.id).toBe('near-angled');
+  });
+
+  it('penalises camera makes not typical of the travel profile', () => {
+    const result = scoreCandidates(
+      [image('car', 1, { make: 'Garmin' }), image('bike', 4, { make: 'GoPro' })],
+      waypoint,
+      0,
+      { preferredCameraMakes: ['gopro'] },
+      config
+    );
+    expect(result.winner?.id).toBe('bike');
+  });
+
+  it('lets newer images win close calls when preferring the newest', () => {
+    const candidates = [
+      image('old', 1, { captured_at: Date.parse('2015-06-01') }),
+      image('new', 6, { captured_at: Date.parse('2023-06-01') }),
+    ];
+    const newest = { captureFilter: { months: [], preferNewest: true } };
+
+    expect(scoreCandidates(candidates, waypoint, 0, {}, config).winner?.id).toBe('old');
+    expect(scoreCandidates(candidates, waypoint, 0, newest, config).winner?.id).toBe('new');
+  });
+
+  it('turns panoramas to face the route in panorama mode', () => {
+    const result = scoreCandidates(
+      [image('pano', 1, { is_pano: true, computed_compass_angle: 180 })],
+      waypoint,
+      0,
+      { includePanoramas: true },
+      config
+    );
+    expect(result.winner?.isPano).toBe(true);
+    expect(result.ranked[0].headingDifference).toBe(0);
+  });
+});
+
+describe('getWideningSteps', () => {
+  it('doubles the radius up to the maximum while loosening the heading tolerance', () => {
+    const steps = getWideningSteps({ ...config, radiusMeters: 20, maxRadiusMeters: 100 });
+    expect(steps.map(({ radiusMeters }) => radiusMeters)).toEqual([20, 40, 80, 100]);
+    expect(steps.map(({ headingToleranceDegrees }) => headingToleranceDegrees)).toEqual([45, 60, 75, 90]);
+  });
+
+  it('does not widen when the radius is already at the maximum', () => {
+    expect(getWideningSteps({ ...config, radiusMeters: 100 })).toHaveLength(1);
+  });
+
+  it('stops instead of looping when the radius cannot grow', () => {
+    expect(getWideningSteps({ ...config, radiusMeters: 0 }).map(({ radiusMeters }) => radiusMeters)).toEqual([0]);
+    expect(getWideningSteps({ ...config, radiusMeters: -5 })).toHaveLength(1);
+  });
+});
+
+describe('searchWithWidening', () => {
+  it('stops at the first radius with a match', async () => {
+    const fetchCandidates = jest.fn(async (radiusMeters: number) => [image('near', 5)]);
+    const result = await searchWithWidening(fetchCandidates, waypoint, 0, {}, config);
+
+    expect(fetchCandidates).toHaveBeenCalledTimes(1);
+    expect(result.winner?.id).toBe('near');
+    expect(result.winner?.lowConfidence).toBeUndefined();
+  });
+
+  it('marks images only found after widening as low-confidence', async () => {
+    const fetchCandidates = jest.fn(async (radiusMeters: number) => [image('distant', 60)]);
+    const result = await searchWithWidening(fetchCandidates, waypoint, 0, {}, config);
+
+    expect(fetchCandidates.mock.calls.map(([radiusMeters]) => radiusMeters)).toEqual([20, 40, 80]);
+    expect(result.radiusMeters).toBe(80);
+    expect(result.winner?.lowConfidence).toBe(true);
+  });
+
+  it('returns the widest search when nothing is found', async () => {
+    const result = await searchWithWidening(async () => [], waypoint, 0, {}, config);
+    expect(result.winner).toBeNull();
+    expect(result.radiusMeters).toBe(100);
+  });
+});
+
+// Search result for one waypoint, from [sequence, score] pairs
+function waypointResult(...candidates: Array<[string, number]>): SelectionResult {
+  const ranked = candidates
+    .map(([sequenceId, score], index) => ({
+      image: { id: `${sequenceId}-${index}`, thumbUrl: '', geometry: { coordinates: [0, 0] as [number, number] }, sequenceId },
+      score,
+      distanceMeters: 0,
+      headingDifference: 0,
+    }))
+    .sort((a, b) => a.score - b.score);
+  return { winner: ranked.length > 0 ? ranked[0].image : null, ranked, rejections: [] };
+}
+
+const sequencesOf = (selection: Array<{ sequenceId?: string } | null>) =>
+  selection.map((image) => (image ? image.sequenceId : null));
+
+describe('selectAlongSequences', () => {
+  it('stays in one sequence when switching costs more than it gains', () => {
+    // Best per waypoint would be b, a, a: one switch (15) outweighs the 5 points a loses at the start
+    const selection = selectAlongSequences(
+      [waypointResult(['a', 5], ['b', 0]), waypointResult(['a', 0], ['b', 10]), waypointResult(['a', 0], ['b', 10])],
+      null,
+      config
+    );
+    expect(sequencesOf(selection)).toEqual(['a', 'a', 'a']);
+  });
+
+  it('switches sequence when coverage forces it', () => {
+    const selection = selectAlongSequences([waypointResult(['a', 0]), waypointResult(['b', 0])], null, config);
+    expect(sequencesOf(selection)).toEqual(['a', 'b']);
+  });
+
+  it('keeps the sequence across waypoints without images', () => {
+    const selection = selectAlongSequences(
+      [waypointResult(['a', 0], ['b', 10]), waypointResult(), waypointResult(['a', 5], ['b', 0])],
+      null,
+      config
+    );
+    expect(sequencesOf(selection)).toEqual(['a', null, 'a']);
+  });
+
+  it('continues the sequence of the image picked before the stretch', () => {
+    const previous = waypointResult(['b', 0]).winner;
+    const selection = selectAlongSequences([waypointResult(['a', 0], ['b', 10])], previous, config);
+    expect(sequencesOf(selection)).toEqual(['b']);
+  });
+});
+
+describe('createSequenceSelector', () => {
+  // On their own the first two waypoints favour b; the rest of the route only has a
+  const firstBatch = [waypointResult(['a', 4], ['b', 0]), waypointResult(['a', 4], ['b', 0])];
+  const secondBatch = [waypointResult(['a', 0]), waypointResult(['a', 0])];
+
+  it('holds back picks until later results settle them, matching a selection over the whole route', () => {
+    const selector = createSequenceSelector(config);
+
+    expect(selector.push(firstBatch)).toEqual([]);
+    const settled = selector.push(secondBatch);
+    expect(sequencesOf(settled)).toEqual(['a', 'a', 'a', 'a']);
+    expect(settled).toEqual(selectAlongSequences([...firstBatch, ...secondBatch], null, config));
+    expect(selector.finish()).toEqual([]);
+  });
+
+  it('settles the oldest waypoints with the best picks so far when too many are pending', () => {
+    const selector = createSequenceSelector(config, 1);
+
+    expect(sequencesOf(selector.push(firstBatch))).toEqual(['b']);
+    expect(sequencesOf(selector.finish())).toEqual(['b']);
+  });
+
+  it('settles waypoints without images straight away', () => {
+    const selector = createSequenceSelector(config);
+    expect(selector.push([waypointResult(), waypointResult()])).toEqual([null, null]);
+  });
+});
@@ -0,0 +1,427 @@
+// Candidate scoring: picks the image that best matches a waypoint, in real meters,
+// and records why every other candidate lost so selection can be tuned per city.
+
+import type { MapillaryApiImage, MapillaryImage, ImageSearchOptions } from './api';
+import { distance } from '../utils/calculations';
+import { matchesCaptureFilter } from '../utils/captureDate';
+
+export interface ScoringConfig {
+  /** Maximum distance between image and waypoint */
+  radiusMeters: number;
+  /** Maximum difference between image compass angle and route bearing */
+  headingToleranceDegrees: number;
+  /** Score points per degree of heading difference */
+  headingWeight: number;
+  /** Score points per meter of distance */
+  distanceWeight: number;
+  /** Score points added for a camera make not typical of the travel profile */
+  cameraMismatchPenalty: number;
+  /** Score points per year of image age, applied when preferring the newest imagery */
+  recencyWeight: number;
+  /** Score points charged for switching capture sequence between consecutive waypoints */
+  sequenceSwitchPenalty: number;
+  /** Largest radius tried when nothing acceptable is found within radiusMeters */
+  maxRadiusMeters: number;
+  /** Heading tolerance allowed at the largest radius */
+  maxHeadingToleranceDegrees: number;
+}
+
+export type RejectionReason =
+  | 'no-thumbnail'
+  | 'panorama'
+  | 'capture-date'
+  | 'no-heading'
+  | 'too-far'
+  | 'heading-mismatch'
+  | 'outscored';
+
+export interface CandidateRejection {
+  id: string;
+  reason: RejectionReason;
+  detail: string;
+}
+
+export interface ScoredCandidate {
+  image: MapillaryImage;
+  /** Lower is better */
+  score: number;
+  distanceMeters: number;
+  headingDifference: number;
+}
+
+export interface SelectionResult {
+  winner: MapillaryImage | null;
+  /** Every acceptable candidate, best first (the winner included) */
+  ranked: ScoredCandidate[];
+  rejections: CandidateRejection[];
+  /** Radius of the search that produced the result */
+  radiusMeters?: number;
+  /** Why the search itself failed, when it did */
+  error?: string;
+}
+
+export const REJECTION_LABELS: Record<RejectionReason, string> = {
+  'no-thumbnail': 'no thumbnail',
+  panorama: 'panorama',
+  'capture-date': 'outside capture dates',
+  'no-heading': 'no compass angle',
+  'too-far': 'too far',
+  'heading-mismatch': 'wrong heading',
+  outscored: 'outscored',
+};
+
+export const DEFAULT_SCORING_CONFIG: ScoringConfig = {
+  radiusMeters: 20,
+  headingToleranceDegrees: 45,
+  headingWeight: 3,
+  distanceWeight: 0.5,
+  cameraMismatchPenalty: 20,
+  recencyWeight: 5,
+  sequenceSwitchPenalty: 15,
+  maxRadiusMeters: 100,
+  maxHeadingToleranceDegrees: 90,
+};
+
+const STORAGE_KEY = 'scoringConfig';
+const YEAR_MS = 365.25 * 24 * 60 * 60 * 1000;
+
+function loadScoringConfig(): ScoringConfig {
+  if (typeof window === 'undefined') return DEFAULT_SCORING_CONFIG;
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    return stored ? { ...DEFAULT_SCORING_CONFIG, ...JSON.parse(stored) } : DEFAULT_SCORING_CONFIG;
+  } catch (error) {
+    console.error('Could not read scoring settings:', error);
+    return DEFAULT_SCORING_CONFIG;
+  }
+}
+
+let currentScoringConfig: ScoringConfig = loadScoringConfig();
+
+export function getScoringConfig(): ScoringConfig {
+  // Stored or handed-over settings may predate validation; a non-positive radius would never widen
+  if (!(currentScoringConfig.radiusMeters > 0)) {
+    return { ...currentScoringConfig, radiusMeters: DEFAULT_SCORING_CONFIG.radiusMeters };
+  }
+  return currentScoringConfig;
+}
+
+/**
+ * Use a scoring configuration for this session only, e.g. one handed to a worker
+ */
+export function applyScoringConfig(config: ScoringConfig): void {
+  currentScoringConfig = config;
+}
+
+/**
+ * Replace the scoring configuration and persist it for the next session
+ */
+export function setScoringConfig(config: ScoringConfig): void {
+  currentScoringConfig = config;
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+  } catch (error) {
+    console.error('Could not save scoring settings:', error);
+  }
+}
+
+/**
+ * Smallest absolute difference between two compass angles, 0-180
+ */
+export function headingDifference(a: number, b: number): number {
+  const diff = Math.abs(a - b) % 360;
+  return diff > 180 ? 360 - diff : diff;
+}
+
+// Images without geometry fall back to the waypoint they were found for
+export function toMapillaryImage(image: MapillaryApiImage, coord: [number, number]): MapillaryImage {
+  return {
+    id: image.id,
+    thumbUrl: image.thumb_2048_url as string,
+    computedCompassAngle: image.computed_compass_angle,
+    geometry: image.geometry || { coordinates: [coord[1], coord[0]] },
+    isPano: Boolean(image.is_pano),
+    capturedAt: image.captured_at,
+    sequenceId: image.sequence,
+  };
+}
+
+/**
+ * Score every candidate against the waypoint position and heading.
+ * Shared by every imagery provider so they all select frames the same way.
+ */
+export function scoreCandidates(
+  candidates: MapillaryApiImage[],
+  coord: [number, number],
+  heading: number,
+  options: ImageSearchOptions = {},
+  config: ScoringConfig = getScoringConfig()
+): SelectionResult {
+  const preferredMakes = options.preferredCameraMakes || [];
+  const ranked: ScoredCandidate[] = [];
+  const rejections: CandidateRejection[] = [];
+  const reject = (image: MapillaryApiImage, reason: RejectionReason, detail: string) => {
+    rejections.push({ id: image.id, reason, detail });
+  };
+
+  for (const image of candidates) {
+    if (!image.thumb_2048_url) {
+      reject(image, 'no-thumbnail', 'image has no 2048px thumbnail');
+      continue;
+    }
+    if (image.is_pano && !options.includePanoramas) {
+      reject(image, 'panorama', 'panoramas are only used in panorama mode');
+      continue;
+    }
+    if (options.captureFilter && !matchesCaptureFilter(image.captured_at, options.captureFilter)) {
+      reject(image, 'capture-date', image.captured_at
+        ? `captured ${new Date(image.captured_at).toISOString().slice(0, 10)}`
+        : 'capture date unknown');
+      continue;
+    }
+    if (image.computed_compass_angle === undefined || image.computed_compass_angle === null) {
+      reject(image, 'no-heading', 'image has no computed compass angle');
+      continue;
+    }
+
+    const [imgLon, imgLat] = image.geometry?.coordinates || [coord[1], coord[0]];
+    const distanceMeters = distance(coord, [imgLat, imgLon]) * 1000;
+    if (distanceMeters > config.radiusMeters) {
+      reject(image, 'too-far', `${distanceMeters.toFixed(1)}m away (limit ${config.radiusMeters}m)`);
+      continue;
+    }
+
+    // A panorama can be turned to face the route, so its heading always matches
+    const headingDiff = image.is_pano ? 0 : headingDifference(image.computed_compass_angle, heading);
+    if (headingDiff > config.headingToleranceDegrees) {
+      reject(image, 'heading-mismatch', `${headingDiff.toFixed(0)}° off route bearing (limit ${config.headingToleranceDegrees}°)`);
+      continue;
+    }
+
+    let score = headingDiff * config.headingWeight + distanceMeters * config.distanceWeight;
+
+    // Favour cameras typical for the travel mode (bike-mounted, handheld, ...)
+    if (preferredMakes.length > 0 && image.make) {
+      const make = String(image.make).toLowerCase();
+      if (!preferredMakes.some((preferred) => make.includes(preferred))) {
+        score += config.cameraMismatchPenalty;
+      }
+    }
+
+    // Newer images win close calls when preferring recent imagery
+    if (options.captureFilter?.preferNewest && image.captured_at) {
+      score += ((Date.now() - image.captured_at) / YEAR_MS) * config.recencyWeight;
+    }
+
+    ranked.push({
+      image: toMapillaryImage(image, coord),
+      score,
+      distanceMeters,
+      headingDifference: headingDiff,
+    });
+  }
+
+  ranked.sort((a, b) => a.score - b.score);
+  if (ranked.length === 0) {
+    return { winner: null, ranked, rejections };
+  }
+
+  const [best, ...outscored] = ranked;
+  outscored.forEach((candidate) => {
+    rejections.push({
+      id: candidate.image.id,
+      reason: 'outscored',
+      detail: `score ${candidate.score.toFixed(1)} vs ${best.score.toFixed(1)}`,
+    });
+  });
+
+  return { winner: best.image, ranked, rejections };
+}
+
+/**
+ * Search settings to try in turn: the configured radius first, then doubling up to
+ * maxRadiusMeters while the heading tolerance loosens towards maxHeadingToleranceDegrees
+ */
+export function getWideningSteps(config: ScoringConfig = getScoringConfig()): ScoringConfig[] {
+  const radii = [config.radiusMeters];
+  while (radii[radii.length - 1] < config.maxRadiusMeters) {
+    const previous = radii[radii.length - 1];
+    const next = Math.min(previous * 2, config.maxRadiusMeters);
+    // Doubling a zero (or invalid) radius goes nowhere
+    if (!(next > previous)) break;
+    radii.push(next);
+  }
+
+  const extraTolerance = Math.max(config.maxHeadingToleranceDegrees - config.headingToleranceDegrees, 0);
+  return radii.map((radiusMeters, step) => ({
+    ...config,
+    radiusMeters,
+    headingToleranceDegrees: config.headingToleranceDegrees +
+      (radii.length > 1 ? (extraTolerance * step) / (radii.length - 1) : 0),
+  }));
+}
+
+/**
+ * Score candidates with progressively wider searches until one is acceptable.
+ * Dense areas stop at the first step; images only found after widening are marked low-confidence.
+ * @param fetchCandidates - Loads the candidates within a radius of the waypoint
+ */
+export async function searchWithWidening(
+  fetchCandidates: (radiusMeters: number) => Promise<MapillaryApiImage[]>,
+  coord: [number, number],
+  heading: number,
+  options: ImageSearchOptions = {},
+  config: ScoringConfig = getScoringConfig()
+): Promise<SelectionResult> {
+  const steps = getWideningSteps(config);
+  let result: SelectionResult = { winner: null, ranked: [], rejections: [] };
+
+  for (let step = 0; step < steps.length; step++) {
+    const candidates = await fetchCandidates(steps[step].radiusMeters);
+    result = { ...scoreCandidates(candidates, coord, heading, options, steps[step]), radiusMeters: steps[step].radiusMeters };
+    if (result.winner) break;
+  }
+
+  if (result.winner && result.radiusMeters !== config.radiusMeters) {
+    result.ranked.forEach((candidate) => {
+      candidate.image.lowConfidence = true;
+    });
+  }
+  return result;
+}
+
+/**
+ * Count rejections per reason, e.g. for a "3 too far, 2 wrong heading" summary
+ */
+export function summarizeRejections(rejections: CandidateRejection[]): string {
+  const counts = new Map<RejectionReason, number>();
+  rejections.forEach(({ reason }) => counts.set(reason, (counts.get(reason) || 0) + 1));
+  return Array.from(counts.entries())
+    .map(([reason, count]) => `${count} ${REJECTION_LABELS[reason]}`)
+    .join(', ');
+}
+
+function isSameSequence(a: MapillaryImage | null, b: MapillaryImage | null): boolean {
+  return Boolean(a?.sequenceId) && a?.sequenceId === b?.sequenceId;
+}
+
+// Cheapest selection ending on each candidate of the last waypoint that has any, with its total
+// (summed scores plus switch penalties). Empty when no waypoint has a candidate.
+function traceSequences(
+  results: SelectionResult[],
+  previous: MapillaryImage | null,
+  config: ScoringConfig
+): Array<{ selection: Array<MapillaryImage | null>; cost: number }> {
+  // Only candidates that could beat the winner once a switch penalty is added are worth tracking
+  const options = results.map(({ ranked }) =>
+    ranked.length > 0
+      ? ranked.filter(({ score }) => score <= ranked[0].score + config.sequenceSwitchPenalty)
+      : []
+  );
+
+  // costs[i][k]: cheapest total for waypoints up to i ending on candidate k; from[i][k] its predecessor
+  const costs: number[][] = options.map(() => []);
+  const from: number[][] = options.map(() => []);
+  // Waypoints without candidates are skipped, keeping the sequence across the gap
+  const previousWaypoint: number[] = [];
+  let lastWaypoint = -1;
+
+  for (let i = 0; i < options.length; i++) {
+    if (options[i].length === 0) continue;
+    const priorWaypoint = lastWaypoint;
+    previousWaypoint[i] = priorWaypoint;
+
+    options[i].forEach((candidate, k) => {
+      if (priorWaypoint < 0) {
+        costs[i][k] = candidate.score +
+          (previous && !isSameSequence(previous, candidate.image) ? config.sequenceSwitchPenalty : 0);
+        return;
+      }
+
+      let best = Infinity;
+      options[priorWaypoint].forEach((prior, j) => {
+        const cost = costs[priorWaypoint][j] +
+          (isSameSequence(prior.image, candidate.image) ? 0 : config.sequenceSwitchPenalty);
+        if (cost < best) {
+          best = cost;
+          from[i][k] = j;
+        }
+      });
+      costs[i][k] = best + candidate.score;
+    });
+    lastWaypoint = i;
+  }
+
+  if (lastWaypoint < 0) return [];
+
+  return costs[lastWaypoint].map((cost, end) => {
+    const selection: Array<MapillaryImage | null> = results.map(() => null);
+    let candidate = end;
+    for (let i = lastWaypoint; i >= 0; i = previousWaypoint[i]) {
+      selection[i] = options[i][candidate].image;
+      candidate = from[i][candidate];
+    }
+    return { selection, cost };
+  });
+}
+
+/**
+ * Pick one image per waypoint over a stretch of route, preferring to stay in the same
+ * capture sequence. Minimises the summed score plus a penalty for every sequence switch,
+ * so a slightly worse image from the current sequence beats a jump to another camera,
+ * and sequences only change when coverage forces it.
+ * @param previous - Image chosen just before this stretch, so consecutive stretches join up
+ */
+export function selectAlongSequences(
+  results: SelectionResult[],
+  previous: MapillaryImage | null = null,
+  config: ScoringConfig = getScoringConfig()
+): Array<MapillaryImage | null> {
+  const traces = traceSequences(results, previous, config);
+  if (traces.length === 0) return results.map(() => null);
+  return traces.reduce((best, trace) => (trace.cost < best.cost ? trace : best)).selection;
+}
+
+/**
+ * Sequence selection over a route whose results arrive in batches. Picks are handed out once
+ * later results can no longer change them, i.e. once every way of continuing the route agrees
+ * on them, so waypoints at batch edges are chosen as if the whole route had been searched.
+ * @param maxPending - Waypoints held back at most; beyond that the oldest take the currently best picks
+ */
+export function createSequenceSelector(config: ScoringConfig = getScoringConfig(), maxPending = 24) {
+  let previous: MapillaryImage | null = null;
+  let pending: SelectionResult[] = [];
+
+  // Hand out the first count pending picks and continue from the last image among them
+  const settle = (selection: Array<MapillaryImage | null>, count: number) => {
+    const settled = selection.slice(0, count);
+    previous = settled.filter(Boolean).pop() || previous;
+    pending = pending.slice(count);
+    return settled;
+  };
+
+  return {
+    /**
+     * Add the results for the next waypoints; returns the picks settled so far, in waypoint order,
+     * continuing where the previous call left off
+     */
+    push(results: SelectionResult[]): Array<MapillaryImage | null> {
+      pending = pending.concat(results);
+      const traces = traceSequences(pending, previous, config);
+      if (traces.length === 0) return settle(pending.map(() => null), pending.length);
+
+      // Waypoints where every trace picks the same image are fixed whatever comes next
+      const agreesAt = (i: number) => traces.every(({ selection }) => selection[i] === traces[0].selection[i]);
+      let agreed = 0;
+      while (agreed < pending.length && agreesAt(agreed)) agreed++;
+      if (pending.length - agreed <= maxPending) return settle(traces[0].selection, agreed);
+
+      const best = traces.reduce((cheapest, trace) => (trace.cost < cheapest.cost ? trace : cheapest));
+      return settle(best.selection, pending.length - maxPending);
+    },
+    /** Picks for every remaining waypoint, once no more results will come */
+    finish(): Array<MapillaryImage | null> {
+      return settle(selectAlongSequences(pending, previous, config), pending.length);
+    },
+  };
+}
@@ -0,0 +1,25 @@
+import { distance, simplifyPath } from './calculations';
+
+describe('simplifyPath', () => {
+  it('drops points within the tolerance of a straight line', () => {
+    // About 1 m off a 100 m line heading east
+    const path: [number, number][] = [[0, 0], [0.000009, 0.0005], [0, 0.0009]];
+    expect(simplifyPath(path, 2)).toEqual([[0, 0], [0, 0.0009]]);
+    expect(simplifyPath(path, 0.5)).toEqual(path);
+  });
+
+  it('keeps corners', () => {
+    const path: [number, number][] = [[0, 0], [0, 0.0005], [0, 0.001], [0.0005, 0.001], [0.001, 0.001]];
+    expect(simplifyPath(path, 2)).toEqual([[0, 0], [0, 0.001], [0.001, 0.001]]);
+  });
+
+  it('leaves short paths alone', () => {
+    expect(simplifyPath([[1, 2], [3, 4]], 100)).toEqual([[1, 2], [3, 4]]);
+  });
+});
+
+describe('distance', () => {
+  it('returns kilometers', () => {
+    expect(distance([0, 0], [1, 0])).toBeCloseTo(111.19, 1);
+  });
+});
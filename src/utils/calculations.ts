@@ -177,3 +177,52 @@ export function generateEvenlySpacedPoints(
 
   return result;
 }
+
+/**
+ * Simplify a path with the Douglas-Peucker algorithm, dropping points that lie within
+ * toleranceMeters of the line through their neighbours. The first and last points are always kept.
+ */
+export function simplifyPath(path: [number, number][], toleranceMeters: number): [number, number][] {
+  if (path.length < 3) return path;
+
+  // Flat projection around the path's start, in meters; plenty accurate at track scale
+  const metersPerDegree = 111320;
+  const lonScale = Math.cos(toRadians(path[0][0]));
+  const points = path.map(([lat, lon]) => [lon * metersPerDegree * lonScale, lat * metersPerDegree]);
+
+  const offset = (index: number, start: number, end: number): number => {
+    const [x, y] = points[index];
+    const [x1, y1] = points[start];
+    const [x2, y2] = points[end];
+    const dx = x2 - x1;
+    const dy = y2 - y1;
+    const lengthSquared = dx * dx + dy * dy;
+    const t = lengthSquared > 0 ? Math.max(0, Math.min(1, ((x - x1) * dx + (y - y1) * dy) / lengthSquared)) : 0;
+    return Math.hypot(x - (x1 + t * dx), y - (y1 + t * dy));
+  };
+
+  const keep = new Array<boolean>(path.length).fill(false);
+  keep[0] = true;
+  keep[path.length - 1] = true;
+  // Explicit stack rather than recursion, since recorded tracks can have many thousands of points
+  const stack: Array<[number, number]> = [[0, path.length - 1]];
+
+  while (stack.length > 0) {
+    const [start, end] = stack.pop()!;
+    let farthest = -1;
+    let farthestOffset = toleranceMeters;
+    for (let i = start + 1; i < end; i++) {
+      const d = offset(i, start, end);
+      if (d > farthestOffset) {
+        farthest = i;
+        farthestOffset = d;
+      }
+    }
+    if (farthest >= 0) {
+      keep[farthest] = true;
+      stack.push([start, farthest], [farthest, end]);
+    }
+  }
+
+  return path.filter((_, index) => keep[index]);
+}
@@ -0,0 +1,60 @@
+import { CaptureDateFilter, DEFAULT_CAPTURE_FILTER, SEASONS, isCaptureFilterActive, matchesCaptureFilter } from './captureDate';
+
+const filter = (overrides: Partial<CaptureDateFilter>): CaptureDateFilter => ({ ...DEFAULT_CAPTURE_FILTER, ...overrides });
+const at = (isoDate: string) => Date.parse(isoDate);
+
+describe('matchesCaptureFilter', () => {
+  it('keeps a month range that crosses the new year', () => {
+    const winter = filter({ months: SEASONS.Winter });
+
+    expect(matchesCaptureFilter(at('2021-12-15'), winter)).toBe(true);
+    expect(matchesCaptureFilter(at('2022-01-03'), winter)).toBe(true);
+    expect(matchesCaptureFilter(at('2022-02-28T23:59:59Z'), winter)).toBe(true);
+    expect(matchesCaptureFilter(at('2022-03-01'), winter)).toBe(false);
+    expect(matchesCaptureFilter(at('2021-11-30T23:59:59Z'), winter)).toBe(false);
+  });
+
+  it('reads months in UTC', () => {
+    const january = filter({ months: [1] });
+    expect(matchesCaptureFilter(at('2022-01-01T00:30:00Z'), january)).toBe(true);
+    expect(matchesCaptureFilter(at('2021-12-31T23:30:00Z'), january)).toBe(false);
+  });
+
+  it('includes both ends of the date range', () => {
+    const year = filter({ from: '2021-01-01', to: '2021-12-31' });
+
+    expect(matchesCaptureFilter(at('2021-01-01T00:00:00Z'), year)).toBe(true);
+    expect(matchesCaptureFilter(at('2021-12-31T23:59:59Z'), year)).toBe(true);
+    expect(matchesCaptureFilter(at('2020-12-31T23:59:59Z'), year)).toBe(false);
+    expect(matchesCaptureFilter(at('2022-01-01T00:00:00Z'), year)).toBe(false);
+  });
+
+  it('applies the date range and the months together', () => {
+    const winterSince2021 = filter({ from: '2021-06-01', months: SEASONS.Winter });
+
+    expect(matchesCaptureFilter(at('2022-01-10'), winterSince2021)).toBe(true);
+    expect(matchesCaptureFilter(at('2021-01-10'), winterSince2021)).toBe(false);
+    expect(matchesCaptureFilter(at('2021-07-10'), winterSince2021)).toBe(false);
+  });
+
+  it('lets images without a capture date through only when nothing is restricted', () => {
+    expect(matchesCaptureFilter(undefined, DEFAULT_CAPTURE_FILTER)).toBe(true);
+    expect(matchesCaptureFilter(undefined, filter({ preferNewest: true }))).toBe(true);
+    expect(matchesCaptureFilter(undefined, filter({ from: '2021-01-01' }))).toBe(false);
+    expect(matchesCaptureFilter(undefined, filter({ to: '2021-01-01' }))).toBe(false);
+    expect(matchesCaptureFilter(undefined, filter({ months: [6] }))).toBe(false);
+  });
+
+  it('does not drop older images when only preferring the newest', () => {
+    expect(matchesCaptureFilter(at('2014-05-01'), filter({ preferNewest: true }))).toBe(true);
+  });
+});
+
+describe('isCaptureFilterActive', () => {
+  it('counts any restriction or preferring the newest', () => {
+    expect(isCaptureFilterActive(DEFAULT_CAPTURE_FILTER)).toBe(false);
+    expect(isCaptureFilterActive(filter({ preferNewest: true }))).toBe(true);
+    expect(isCaptureFilterActive(filter({ months: [12, 1, 2] }))).toBe(true);
+    expect(isCaptureFilterActive(filter({ to: '2021-01-01' }))).toBe(true);
+  });
+});
@@ -0,0 +1,64 @@
+// Capture-date filters for choosing imagery from a consistent period
+
+export interface CaptureDateFilter {
+  /** Earliest capture date, YYYY-MM-DD (inclusive) */
+  from?: string;
+  /** Latest capture date, YYYY-MM-DD (inclusive) */
+  to?: string;
+  /** Allowed capture months, 1-12; empty means any month */
+  months: number[];
+  /** Favour the most recently captured image among good matches */
+  preferNewest: boolean;
+}
+
+export const DEFAULT_CAPTURE_FILTER: CaptureDateFilter = {
+  months: [],
+  preferNewest: false,
+};
+
+export const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+/** Meteorological seasons (northern hemisphere months) */
+export const SEASONS: Record<string, number[]> = {
+  Spring: [3, 4, 5],
+  Summer: [6, 7, 8],
+  Autumn: [9, 10, 11],
+  Winter: [12, 1, 2],
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Whether an image captured at the given time (ms since epoch) passes the filter.
+ * Images without a capture date only pass when no date or month restriction is set.
+ */
+export function matchesCaptureFilter(capturedAt: number | undefined, filter: CaptureDateFilter): boolean {
+  const restricted = Boolean(filter.from || filter.to || filter.months.length > 0);
+  if (capturedAt === undefined) return !restricted;
+
+  if (filter.from && capturedAt < Date.parse(filter.from)) return false;
+  // "to" is inclusive, so accept anything before the end of that day
+  if (filter.to && capturedAt >= Date.parse(filter.to) + DAY_MS) return false;
+
+  if (filter.months.length > 0) {
+    const month = new Date(capturedAt).getUTCMonth() + 1;
+    if (!filter.months.includes(month)) return false;
+  }
+
+  return true;
+}
+
+export function isCaptureFilterActive(filter: CaptureDateFilter): boolean {
+  return Boolean(filter.from || filter.to || filter.months.length > 0 || filter.preferNewest);
+}
+
+/**
+ * Human readable capture date, e.g. "12 May 2021"
+ */
+export function formatCaptureDate(capturedAt: number): string {
+  return new Date(capturedAt).toLocaleDateString(undefined, {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+  });
+}
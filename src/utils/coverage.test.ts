@@ -0,0 +1,55 @@
+import { analyzeCoverage, formatDistance } from './coverage';
+import { Waypoint, WaypointStatus } from './drive';
+
+// Waypoints 100 m apart heading north along the prime meridian
+const waypoints: Waypoint[] = Array.from({ length: 6 }, (_, index) => ({
+  coord: [(index * 100) / 111195, 0] as [number, number],
+  bearing: 0,
+}));
+
+describe('analyzeCoverage', () => {
+  it('measures gaps in meters, longest first, ignoring pending waypoints', () => {
+    const statuses: WaypointStatus[] = ['found', 'missing', 'missing', 'duplicate', 'missing', 'pending'];
+    const report = analyzeCoverage(waypoints, statuses);
+
+    // The first waypoint only stands for the route up to halfway to the next one
+    expect(report.searchedMeters).toBeCloseTo(450, 0);
+    expect(report.coveredMeters).toBeCloseTo(150, 0);
+    expect(report.coveragePercent).toBeCloseTo(33.3, 1);
+
+    expect(report.gaps.map(({ startWaypoint, endWaypoint }) => [startWaypoint, endWaypoint])).toEqual([
+      [1, 2],
+      [4, 4],
+    ]);
+    expect(report.gaps[0].lengthMeters).toBeCloseTo(200, 0);
+    expect(report.gaps[1].lengthMeters).toBeCloseTo(100, 0);
+  });
+
+  it('traces a gap from halfway before its first waypoint to halfway after its last', () => {
+    const report = analyzeCoverage(waypoints, ['found', 'missing', 'missing', 'found']);
+    const path = report.gaps[0].path;
+
+    expect(path).toHaveLength(5);
+    expect(path[0][0]).toBeCloseTo(waypoints[1].coord[0] / 2, 10);
+    expect(path[1]).toEqual(waypoints[1].coord);
+    expect(path[4][0]).toBeCloseTo((waypoints[2].coord[0] + waypoints[3].coord[0]) / 2, 10);
+  });
+
+  it('reports nothing before any waypoint is searched', () => {
+    expect(analyzeCoverage(waypoints, [])).toEqual({
+      searchedMeters: 0,
+      coveredMeters: 0,
+      coveragePercent: 0,
+      gaps: [],
+    });
+  });
+});
+
+describe('formatDistance', () => {
+  it('switches units with the length', () => {
+    expect(formatDistance(850)).toBe('850 m');
+    expect(formatDistance(2400)).toBe('2.4 km');
+    expect(formatDistance(150, true)).toBe('492 ft');
+    expect(formatDistance(2414, true)).toBe('1.5 mi');
+  });
+});
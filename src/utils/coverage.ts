@@ -0,0 +1,96 @@
+// Coverage analysis: which stretches of a drive have no acceptable image
+
+import { distance } from './calculations';
+import { Waypoint, WaypointStatus } from './drive';
+
+/**
+ * Run of consecutive waypoints without an acceptable image
+ */
+export interface CoverageGap {
+  /** First and last waypoint index of the gap (inclusive) */
+  startWaypoint: number;
+  endWaypoint: number;
+  lengthMeters: number;
+  /** Stretch of route covered by the gap, as [lat, lon] pairs */
+  path: [number, number][];
+}
+
+export interface CoverageReport {
+  /** Length of route searched so far */
+  searchedMeters: number;
+  coveredMeters: number;
+  /** Share of the searched route with imagery, 0-100 */
+  coveragePercent: number;
+  /** Gaps, longest first */
+  gaps: CoverageGap[];
+}
+
+function midpoint(a: [number, number], b: [number, number]): [number, number] {
+  return [(a[0] + b[0]) / 2, (a[1] + b[1]) / 2];
+}
+
+/**
+ * Measure coverage along the waypoints. Each waypoint stands for the route up to halfway
+ * to its neighbours, so a gap's length is the stretch where no image could be shown.
+ * A duplicate waypoint counts as covered: an image was there, just too close to the previous frame.
+ */
+export function analyzeCoverage(waypoints: Waypoint[], statuses: WaypointStatus[]): CoverageReport {
+  const gaps: CoverageGap[] = [];
+  let searchedMeters = 0;
+  let coveredMeters = 0;
+  let currentGap: CoverageGap | null = null;
+
+  waypoints.forEach((waypoint, index) => {
+    const status = statuses[index] || 'pending';
+    if (status === 'pending') return;
+
+    const previous = index > 0 ? waypoints[index - 1].coord : waypoint.coord;
+    const next = index < waypoints.length - 1 ? waypoints[index + 1].coord : waypoint.coord;
+    const start = midpoint(previous, waypoint.coord);
+    const end = midpoint(waypoint.coord, next);
+    const lengthMeters = (distance(start, waypoint.coord) + distance(waypoint.coord, end)) * 1000;
+
+    searchedMeters += lengthMeters;
+
+    if (status !== 'missing') {
+      coveredMeters += lengthMeters;
+      currentGap = null;
+      return;
+    }
+
+    if (currentGap && currentGap.endWaypoint === index - 1) {
+      currentGap.endWaypoint = index;
+      currentGap.lengthMeters += lengthMeters;
+      currentGap.path.push(waypoint.coord, end);
+    } else {
+      currentGap = {
+        startWaypoint: index,
+        endWaypoint: index,
+        lengthMeters,
+        path: [start, waypoint.coord, end],
+      };
+      gaps.push(currentGap);
+    }
+  });
+
+  return {
+    searchedMeters,
+    coveredMeters,
+    coveragePercent: searchedMeters > 0 ? (coveredMeters / searchedMeters) * 100 : 0,
+    gaps: gaps.sort((a, b) => b.lengthMeters - a.lengthMeters),
+  };
+}
+
+const METERS_PER_FOOT = 0.3048;
+const METERS_PER_MILE = 1609.344;
+
+/**
+ * Human-readable length, e.g. "850 m" or "2.4 km" (or "900 ft" / "1.5 mi" when imperial)
+ */
+export function formatDistance(meters: number, imperial: boolean = false): string {
+  if (imperial) {
+    const miles = meters / METERS_PER_MILE;
+    return miles < 0.1 ? `${Math.round(meters / METERS_PER_FOOT)} ft` : `${miles.toFixed(1)} mi`;
+  }
+  return meters < 1000 ? `${Math.round(meters)} m` : `${(meters / 1000).toFixed(1)} km`;
+}
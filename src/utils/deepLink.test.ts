@@ -0,0 +1,63 @@
+import type { RouteFormData } from '../components/RouteForm';
+import { parseDriveLink, serializeDriveLink, simplifyTrackForLink, updateDriveLinkPlayback } from './deepLink';
+
+const form: RouteFormData = {
+  stops: ['San Diego', 'Oceanside', '33.0, -117.2'],
+  profile: 'cycling',
+  spacingMeters: 30,
+  includePanoramas: true,
+  captureFilter: { from: '2020-01-01', to: '2023-12-31', months: [6, 7], preferNewest: true },
+};
+
+// A wiggly line of n points, about a meter apart
+const wigglyTrack = (n: number): [number, number][] =>
+  Array.from({ length: n }, (_, i) => [37 + i * 0.00001, -122 + (i % 2) * 0.00003] as [number, number]);
+
+describe('deep links', () => {
+  it('round-trips a drive', () => {
+    const state = { form, playbackSpeed: 800, frameIndex: 12, routeIndex: 1 };
+    expect(parseDriveLink(serializeDriveLink(state))).toEqual(state);
+  });
+
+  it('ignores links without a drive and repairs bad values', () => {
+    expect(parseDriveLink('')).toBeNull();
+    expect(parseDriveLink('stop=Only+one')).toBeNull();
+
+    const link = parseDriveLink('stop=A&stop=B&profile=teleport&spacing=-4&frame=2.7&months=0,3,13');
+    expect(link?.form.profile).toBe('driving');
+    expect(link?.form.spacingMeters).toBe(50);
+    expect(link?.form.captureFilter.months).toEqual([3]);
+    expect(link?.frameIndex).toBe(2);
+  });
+
+  it('carries imported tracks as a polyline', () => {
+    const track = { name: 'Loop', coordinates: [[37.5, -122.1], [37.6, -122.2], [37.5, -122.3]] as [number, number][] };
+    const link = parseDriveLink(serializeDriveLink({ form: { ...form, stops: [], track } }));
+    expect(link?.form.track).toEqual(track);
+    expect(link?.form.stops).toEqual([]);
+  });
+
+  it('caps the number of track points in a link', () => {
+    const coordinates = wigglyTrack(5000);
+    const simplified = simplifyTrackForLink(coordinates);
+
+    expect(simplified.length).toBeLessThanOrEqual(500);
+    expect(simplified[0]).toEqual(coordinates[0]);
+    expect(simplified[simplified.length - 1]).toEqual(coordinates[coordinates.length - 1]);
+
+    const search = serializeDriveLink({ form: { ...form, track: { name: 'Long ride', coordinates } } });
+    expect(search.length).toBeLessThan(6000);
+    expect(parseDriveLink(search)?.form.track?.coordinates.length).toBe(simplified.length);
+  });
+
+  it('updates playback without touching the rest of the link', () => {
+    const search = serializeDriveLink({ form, playbackSpeed: 800, frameIndex: 3 });
+    const updated = updateDriveLinkPlayback(search, { frameIndex: 4 });
+
+    expect(updated).toBe(search.replace('frame=3', 'frame=4'));
+    expect(parseDriveLink(updateDriveLinkPlayback(updated, { playbackSpeed: 400 }))).toMatchObject({
+      playbackSpeed: 400,
+      frameIndex: 4,
+    });
+  });
+});
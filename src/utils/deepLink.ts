@@ -0,0 +1,129 @@
+// Shareable drive links: route inputs, settings and playback position encoded in the URL query
+
+import type { RouteFormData } from '../components/RouteForm';
+import { TravelProfile, TRAVEL_PROFILES, DEFAULT_PROFILE } from './profiles';
+import { encode, decode } from './polyline';
+import { DEFAULT_CAPTURE_FILTER } from './captureDate';
+import { simplifyPath } from './calculations';
+
+// Shared tracks are simplified to stay within URL length limits: first within a few meters,
+// then more coarsely until they fit
+const TRACK_TOLERANCE_METERS = 2;
+const MAX_TRACK_POINTS = 500;
+
+export interface DriveLinkState {
+  form: RouteFormData;
+  playbackSpeed?: number;
+  frameIndex?: number;
+  /** Alternative route picked in the route chooser */
+  routeIndex?: number;
+}
+
+/**
+ * Track points as shared in a link, capped at MAX_TRACK_POINTS
+ */
+export function simplifyTrackForLink(coordinates: [number, number][]): [number, number][] {
+  let tolerance = TRACK_TOLERANCE_METERS;
+  let simplified = simplifyPath(coordinates, tolerance);
+  while (simplified.length > MAX_TRACK_POINTS) {
+    tolerance *= 2;
+    simplified = simplifyPath(simplified, tolerance);
+  }
+  return simplified;
+}
+
+/**
+ * Query string (without "?") describing a drive
+ */
+export function serializeDriveLink(state: DriveLinkState): string {
+  const { form, playbackSpeed, frameIndex, routeIndex } = state;
+  const params = new URLSearchParams();
+
+  if (form.track) {
+    // Imported tracks travel as an encoded polyline since there is nothing to geocode
+    params.set('track', encode(simplifyTrackForLink(form.track.coordinates)));
+    params.set('name', form.track.name);
+  } else {
+    form.stops.forEach((stop) => params.append('stop', stop));
+  }
+
+  params.set('profile', form.profile);
+  params.set('spacing', String(form.spacingMeters));
+  if (form.includePanoramas) params.set('pano', '1');
+  if (form.captureFilter.from) params.set('from', form.captureFilter.from);
+  if (form.captureFilter.to) params.set('to', form.captureFilter.to);
+  if (form.captureFilter.months.length > 0) params.set('months', form.captureFilter.months.join(','));
+  if (form.captureFilter.preferNewest) params.set('newest', '1');
+  if (playbackSpeed !== undefined) params.set('speed', String(playbackSpeed));
+  if (frameIndex !== undefined) params.set('frame', String(frameIndex));
+  if (routeIndex !== undefined) params.set('alt', String(routeIndex));
+
+  return params.toString();
+}
+
+/**
+ * Update the playback position and speed of a drive's query string, leaving the rest untouched
+ * so frequent updates don't re-encode the route
+ */
+export function updateDriveLinkPlayback(
+  search: string,
+  { playbackSpeed, frameIndex }: Pick<DriveLinkState, 'playbackSpeed' | 'frameIndex'>
+): string {
+  const params = new URLSearchParams(search);
+  if (playbackSpeed !== undefined) params.set('speed', String(playbackSpeed));
+  if (frameIndex !== undefined) params.set('frame', String(frameIndex));
+  return params.toString();
+}
+
+function parsePositiveNumber(value: string | null): number | undefined {
+  if (value === null) return undefined;
+  const parsed = Number(value);
+  return isFinite(parsed) && parsed >= 0 ? parsed : undefined;
+}
+
+/**
+ * Rebuild a drive from a query string, or null when the URL does not describe one
+ */
+export function parseDriveLink(search: string): DriveLinkState | null {
+  const params = new URLSearchParams(search);
+  const stops = params.getAll('stop').filter((stop) => stop.trim() !== '');
+  const encodedTrack = params.get('track');
+
+  if (!encodedTrack && stops.length < 2) return null;
+
+  const profileParam = params.get('profile') as TravelProfile | null;
+  const profile = profileParam && profileParam in TRAVEL_PROFILES ? profileParam : DEFAULT_PROFILE;
+
+  const form: RouteFormData = {
+    stops: encodedTrack ? [] : stops,
+    profile,
+    spacingMeters: parsePositiveNumber(params.get('spacing')) || TRAVEL_PROFILES[profile].waypointSpacingMeters,
+    includePanoramas: params.get('pano') === '1',
+    captureFilter: {
+      ...DEFAULT_CAPTURE_FILTER,
+      from: params.get('from') || undefined,
+      to: params.get('to') || undefined,
+      months: (params.get('months') || '')
+        .split(',')
+        .map(Number)
+        .filter((month) => Number.isInteger(month) && month >= 1 && month <= 12),
+      preferNewest: params.get('newest') === '1',
+    },
+  };
+
+  if (encodedTrack) {
+    const coordinates = decode(encodedTrack);
+    if (coordinates.length < 2) return null;
+    form.track = { name: params.get('name') || 'Shared track', coordinates };
+  }
+
+  const frame = parsePositiveNumber(params.get('frame'));
+  const alternative = parsePositiveNumber(params.get('alt'));
+
+  return {
+    form,
+    playbackSpeed: parsePositiveNumber(params.get('speed')),
+    frameIndex: frame !== undefined ? Math.floor(frame) : undefined,
+    routeIndex: alternative !== undefined ? Math.floor(alternative) : undefined,
+  };
+}
@@ -0,0 +1,23 @@
+// Browser download helpers
+
+/**
+ * Save a blob through a temporary download link
+ */
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  // Give the browser a moment to start the download before releasing the URL
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/**
+ * File-name friendly timestamp, e.g. 2024-05-01T10-30-00
+ */
+export function fileTimestamp(date: Date = new Date()): string {
+  return date.toISOString().slice(0, 19).replace(/:/g, '-');
+}
@@ -0,0 +1,74 @@
+// Data model of a generated drive: route geometry, sampled waypoints and the selected frames
+
+import { MapillaryImage } from '../services/api';
+import { distance } from './calculations';
+
+/**
+ * Evenly spaced sample point along the route, as produced by generateEvenlySpacedPoints
+ */
+export interface Waypoint {
+  coord: [number, number];
+  bearing: number;
+}
+
+/**
+ * Image chosen for a waypoint, in playback order
+ */
+export interface DriveFrame extends MapillaryImage {
+  /** Index into the drive's waypoints */
+  waypointIndex: number;
+  /** Route bearing at the waypoint the image was chosen for */
+  bearing: number;
+}
+
+/**
+ * Outcome of the image search at a waypoint:
+ * - found: an image was selected and added as a frame
+ * - duplicate: an image was found but was too close to (or the same as) an earlier frame
+ * - missing: no acceptable image near the waypoint
+ * - pending: not searched yet
+ */
+export type WaypointStatus = 'pending' | 'found' | 'duplicate' | 'missing';
+
+export interface DriveData {
+  /** Full route polyline as [lat, lon] pairs */
+  route: [number, number][];
+  waypoints: Waypoint[];
+  frames: DriveFrame[];
+}
+
+/**
+ * Frame position as [lat, lon] (image geometry is stored as [lon, lat])
+ */
+export function getFrameCoordinate(frame: MapillaryImage): [number, number] {
+  const [lon, lat] = frame.geometry.coordinates;
+  return [lat, lon];
+}
+
+/**
+ * Index of the frame closest to a [lat, lon] position, or -1 when there are no frames
+ */
+export function findNearestFrameIndex(frames: DriveFrame[], coord: [number, number]): number {
+  let nearestIndex = -1;
+  let nearestDistance = Infinity;
+
+  frames.forEach((frame, index) => {
+    const d = distance(getFrameCoordinate(frame), coord);
+    if (d < nearestDistance) {
+      nearestDistance = d;
+      nearestIndex = index;
+    }
+  });
+
+  return nearestIndex;
+}
+
+/**
+ * Whether the frame starts a different capture sequence than the one before it
+ */
+export function isSequenceChange(frames: DriveFrame[], index: number): boolean {
+  if (index <= 0 || index >= frames.length) return false;
+  const previous = frames[index - 1].sequenceId;
+  const current = frames[index].sequenceId;
+  return Boolean(previous && current && previous !== current);
+}
@@ -0,0 +1,113 @@
+import { createFramePrefetcher, getPrefetchWindow } from './framePrefetch';
+
+// Stands in for the browser's Image, which jsdom never loads; tests fire onload/onerror themselves
+class FakeImage {
+  static created: FakeImage[] = [];
+  src = '';
+  onload: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+
+  constructor() {
+    FakeImage.created.push(this);
+  }
+}
+
+const imageFor = (url: string) => FakeImage.created.find((image) => image.src === url);
+// Lets the decode() promise chain run
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+const originalImage = global.Image;
+
+beforeEach(() => {
+  FakeImage.created = [];
+  global.Image = FakeImage as unknown as typeof Image;
+});
+
+afterEach(() => {
+  global.Image = originalImage;
+});
+
+describe('getPrefetchWindow', () => {
+  const urls = ['a', 'b', 'c', 'd', 'e', 'f'];
+
+  it('takes the current frame and the ones after it', () => {
+    expect(getPrefetchWindow(urls, 0, 2)).toEqual(['a', 'b', 'c']);
+    expect(getPrefetchWindow(urls, 2, 2)).toEqual(['c', 'd', 'e']);
+  });
+
+  it('wraps round to the start at the end of the drive', () => {
+    expect(getPrefetchWindow(urls, 4, 3)).toEqual(['e', 'f', 'a', 'b']);
+    expect(getPrefetchWindow(urls, 5, 1)).toEqual(['f', 'a']);
+  });
+
+  it('never takes a frame twice when the drive is shorter than the window', () => {
+    expect(getPrefetchWindow(['a', 'b'], 1, 5)).toEqual(['b', 'a']);
+    expect(getPrefetchWindow([], 0, 5)).toEqual([]);
+  });
+});
+
+describe('createFramePrefetcher', () => {
+  it('reports frames as they load or fail', async () => {
+    const onSettled = jest.fn();
+    const prefetcher = createFramePrefetcher(onSettled);
+    prefetcher.prefetch(['a', 'b']);
+
+    expect(prefetcher.getState('a')).toBe('loading');
+    expect(prefetcher.isSettled('a')).toBe(false);
+
+    imageFor('a')?.onload?.();
+    imageFor('b')?.onerror?.();
+    await flush();
+
+    expect(prefetcher.getState('a')).toBe('ready');
+    expect(prefetcher.getState('b')).toBe('failed');
+    expect(prefetcher.isSettled('a')).toBe(true);
+    expect(prefetcher.isSettled('b')).toBe(true);
+    expect(onSettled.mock.calls).toEqual([['b', 'failed'], ['a', 'ready']]);
+  });
+
+  it('drops frames still loading once playback has passed them, keeping the settled ones', async () => {
+    const onSettled = jest.fn();
+    const prefetcher = createFramePrefetcher(onSettled);
+    prefetcher.prefetch(['a', 'b', 'c']);
+    const passed = imageFor('b');
+
+    imageFor('a')?.onload?.();
+    await flush();
+    prefetcher.prefetch(['c', 'd']);
+
+    // The load is abandoned, and a late load event is ignored
+    expect(passed?.src).toBe('');
+    expect(prefetcher.getState('b')).toBeUndefined();
+    passed?.onload?.();
+    await flush();
+    expect(onSettled).not.toHaveBeenCalledWith('b', 'ready');
+
+    expect(prefetcher.getState('a')).toBe('ready');
+    expect(prefetcher.getState('c')).toBe('loading');
+    expect(prefetcher.getState('d')).toBe('loading');
+  });
+
+  it('does not load a frame again that is loading or settled', async () => {
+    const prefetcher = createFramePrefetcher(() => {});
+    prefetcher.prefetch(['a', 'b']);
+    imageFor('a')?.onload?.();
+    await flush();
+
+    prefetcher.prefetch(['a', 'b', 'c']);
+    expect(FakeImage.created.map((image) => image.src)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('forgets the oldest settled frames on a long drive', () => {
+    const prefetcher = createFramePrefetcher(() => {});
+    const urls = Array.from({ length: 301 }, (_, index) => `frame-${index}`);
+    urls.forEach((url) => {
+      prefetcher.prefetch([url]);
+      imageFor(url)?.onerror?.();
+    });
+
+    expect(prefetcher.getState('frame-0')).toBeUndefined();
+    expect(prefetcher.getState('frame-1')).toBe('failed');
+    expect(prefetcher.getState('frame-300')).toBe('failed');
+  });
+});
@@ -0,0 +1,85 @@
+// Look-ahead image loading for the slideshow: frames are fetched and decoded before they are shown
+
+export type PrefetchState = 'loading' | 'ready' | 'failed';
+
+export interface FramePrefetcher {
+  /**
+   * Make sure the given URLs are loading; anything else that is still in flight is dropped
+   * so a seek doesn't leave bandwidth spent on frames that are no longer needed
+   */
+  prefetch: (urls: string[]) => void;
+  getState: (url: string) => PrefetchState | undefined;
+  /** Loaded or failed, i.e. showing it won't flash a blank frame */
+  isSettled: (url: string) => boolean;
+}
+
+// Settled URLs remembered; older ones fall out of the browser's decoded-image cache anyway
+const MAX_REMEMBERED = 300;
+
+/**
+ * URLs to have loaded for the frame being shown: it and up to `ahead` after it, wrapping round
+ * to the start as playback loops
+ */
+export function getPrefetchWindow(urls: string[], currentIndex: number, ahead: number): string[] {
+  const upcoming: string[] = [];
+  for (let offset = 0; offset <= ahead && offset < urls.length; offset++) {
+    upcoming.push(urls[(currentIndex + offset) % urls.length]);
+  }
+  return upcoming;
+}
+
+/**
+ * @param onSettled - Called when a URL finishes loading or fails
+ */
+export function createFramePrefetcher(onSettled: (url: string, state: PrefetchState) => void): FramePrefetcher {
+  const states = new Map<string, PrefetchState>();
+  // Keeps the Image objects alive (and their decoded bitmaps warm) while loading
+  const inFlight = new Map<string, HTMLImageElement>();
+
+  const settle = (url: string, state: PrefetchState) => {
+    if (!inFlight.has(url)) return;
+    inFlight.delete(url);
+    states.delete(url);
+    states.set(url, state);
+    if (states.size > MAX_REMEMBERED) {
+      states.delete(states.keys().next().value as string);
+    }
+    onSettled(url, state);
+  };
+
+  const load = (url: string) => {
+    // No crossOrigin, so the request matches the slideshow's <img> and is served from cache
+    const image = new Image();
+    inFlight.set(url, image);
+    states.set(url, 'loading');
+
+    image.onload = () => {
+      // decode() moves the JPEG decoding off the frame the image is first painted on
+      const decoded = typeof image.decode === 'function' ? image.decode() : Promise.resolve();
+      decoded.then(() => settle(url, 'ready'), () => settle(url, 'ready'));
+    };
+    image.onerror = () => settle(url, 'failed');
+    image.src = url;
+  };
+
+  return {
+    prefetch: (urls) => {
+      const wanted = new Set(urls);
+      inFlight.forEach((image, url) => {
+        if (!wanted.has(url)) {
+          image.src = '';
+          inFlight.delete(url);
+          states.delete(url);
+        }
+      });
+      urls.forEach((url) => {
+        if (!states.has(url)) load(url);
+      });
+    },
+    getState: (url) => states.get(url),
+    isSettled: (url) => {
+      const state = states.get(url);
+      return state === 'ready' || state === 'failed';
+    },
+  };
+}
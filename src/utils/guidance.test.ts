@@ -0,0 +1,93 @@
+import { OsrmStep, describeManeuver, getManeuverIcon, parseOsrmLegs } from './guidance';
+
+const step = (
+  type: string,
+  distance: number,
+  extra: Partial<OsrmStep> & { modifier?: string; exit?: number } = {}
+): OsrmStep => {
+  const { modifier, exit, ...rest } = extra;
+  return { distance, ...rest, maneuver: { location: [-117.1, 32.7], type, modifier, exit } };
+};
+
+describe('parseOsrmLegs', () => {
+  it('places announced maneuvers along the route as [lat, lon]', () => {
+    const maneuvers = parseOsrmLegs([
+      {
+        steps: [
+          step('depart', 100, { name: 'Main St' }),
+          step('turn', 250, { modifier: 'left', name: 'Oak Ave' }),
+          step('new name', 50, { name: 'Oak Blvd' }),
+          step('arrive', 0),
+        ],
+      },
+    ]);
+
+    expect(maneuvers.map(({ type, distanceAlongMeters }) => [type, distanceAlongMeters])).toEqual([
+      ['depart', 0],
+      ['turn', 100],
+      ['arrive', 400],
+    ]);
+    expect(maneuvers[0].location).toEqual([32.7, -117.1]);
+    expect(maneuvers[1].instruction).toBe('Turn left onto Oak Ave');
+  });
+
+  it('announces a continue only when it changes direction', () => {
+    const maneuvers = parseOsrmLegs([
+      { steps: [step('continue', 10, { modifier: 'straight' }), step('continue', 10, { modifier: 'slight right' })] },
+    ]);
+    expect(maneuvers.map(({ modifier }) => modifier)).toEqual(['slight right']);
+  });
+
+  it('announces intermediate stops once and keeps counting distance across legs', () => {
+    const maneuvers = parseOsrmLegs([
+      { steps: [step('depart', 300), step('arrive', 0)] },
+      { steps: [step('depart', 200), step('arrive', 0)] },
+    ]);
+
+    expect(maneuvers.map(({ instruction, distanceAlongMeters }) => [instruction, distanceAlongMeters])).toEqual([
+      ['Start', 0],
+      ['Arrive at stop 1', 300],
+      ['Arrive at your destination', 500],
+    ]);
+  });
+
+  it('copes with legs without steps', () => {
+    expect(parseOsrmLegs([{}])).toEqual([]);
+  });
+});
+
+describe('describeManeuver', () => {
+  it('words the start for any travel profile, with a heading when OSRM gives one', () => {
+    expect(describeManeuver(step('depart', 0))).toBe('Start');
+    expect(describeManeuver(step('depart', 0, { name: 'Main St' }))).toBe('Head out on Main St');
+
+    const northwest = step('depart', 0, { name: 'Main St' });
+    northwest.maneuver.bearing_after = 318;
+    expect(describeManeuver(northwest)).toBe('Head northwest on Main St');
+
+    const north = step('depart', 0);
+    north.maneuver.bearing_after = 352;
+    expect(describeManeuver(north)).toBe('Head north');
+  });
+
+  it('describes roundabouts, ramps and U-turns', () => {
+    expect(describeManeuver(step('roundabout', 0, { exit: 2, name: 'High St' }))).toBe(
+      'At the roundabout, take the 2nd exit onto High St'
+    );
+    expect(describeManeuver(step('off ramp', 0, { modifier: 'right', destinations: 'Los Angeles' }))).toBe(
+      'Take the exit on the right towards Los Angeles'
+    );
+    expect(describeManeuver(step('turn', 0, { modifier: 'uturn' }))).toBe('Make a U-turn');
+    expect(describeManeuver(step('turn', 0, { modifier: 'right', name: 'Interstate 5', ref: 'I 5' }))).toBe(
+      'Turn right onto Interstate 5 (I 5)'
+    );
+  });
+});
+
+describe('getManeuverIcon', () => {
+  it('picks an arrow for the direction', () => {
+    expect(getManeuverIcon({ type: 'turn', modifier: 'sharp left' })).toBe('⬅');
+    expect(getManeuverIcon({ type: 'rotary', modifier: 'right' })).toBe('⟳');
+    expect(getManeuverIcon({ type: 'arrive' })).toBe('🏁');
+  });
+});
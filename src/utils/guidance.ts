@@ -0,0 +1,153 @@
+// Turn-by-turn guidance: OSRM route steps turned into spoken-style instructions placed along the route
+
+/**
+ * Step of an OSRM route leg, as returned with steps=true
+ */
+export interface OsrmStep {
+  distance: number;
+  name?: string;
+  ref?: string;
+  destinations?: string;
+  maneuver: {
+    location: [number, number];
+    type: string;
+    modifier?: string;
+    exit?: number;
+    /** Direction of travel after the maneuver, degrees clockwise from north */
+    bearing_after?: number;
+  };
+}
+
+export interface RouteManeuver {
+  /** Where the maneuver happens, as [lat, lon] */
+  location: [number, number];
+  /** Distance from the start of the route, in meters */
+  distanceAlongMeters: number;
+  /** OSRM maneuver type (turn, roundabout, arrive, ...) and direction (left, slight right, ...) */
+  type: string;
+  modifier?: string;
+  instruction: string;
+}
+
+// Maneuvers that don't change what the driver does, so they are not announced
+const SILENT_TYPES = new Set(['new name', 'notification', 'continue', 'use lane']);
+
+const ROUNDABOUT_TYPES = new Set(['roundabout', 'rotary', 'roundabout turn', 'exit roundabout', 'exit rotary']);
+
+const ORDINALS = ['', '1st', '2nd', '3rd', '4th', '5th', '6th', '7th', '8th', '9th', '10th'];
+
+const COMPASS_POINTS = ['north', 'northeast', 'east', 'southeast', 'south', 'southwest', 'west', 'northwest'];
+
+function compassPoint(bearing: number): string {
+  return COMPASS_POINTS[((Math.round(bearing / 45) % 8) + 8) % 8];
+}
+
+function describeRoad(step: OsrmStep): string {
+  if (step.name && step.ref) return `${step.name} (${step.ref})`;
+  return step.name || step.ref || '';
+}
+
+/**
+ * Instruction text for a step, e.g. "Turn left onto Main St" or "At the roundabout, take the 2nd exit"
+ * @param legIndex / legCount - Used to tell intermediate stops from the destination
+ */
+export function describeManeuver(step: OsrmStep, legIndex: number = 0, legCount: number = 1): string {
+  const { type, modifier, exit } = step.maneuver;
+  const road = describeRoad(step);
+  const onto = road ? ` onto ${road}` : '';
+  const direction = modifier ? modifier.replace('uturn', 'U-turn') : '';
+
+  // Worded to suit every travel profile: driving, cycling or walking
+  if (type === 'depart') {
+    const heading = step.maneuver.bearing_after !== undefined ? ` ${compassPoint(step.maneuver.bearing_after)}` : '';
+    if (road) return `Head${heading || ' out'} on ${road}`;
+    return heading ? `Head${heading}` : 'Start';
+  }
+  if (type === 'arrive') {
+    return legIndex < legCount - 1 ? `Arrive at stop ${legIndex + 1}` : 'Arrive at your destination';
+  }
+  if (ROUNDABOUT_TYPES.has(type)) {
+    const exitText = exit ? `take the ${ORDINALS[exit] || `${exit}th`} exit` : 'continue';
+    return `At the roundabout, ${exitText}${onto}`;
+  }
+  if (type === 'merge') {
+    return `Merge${direction ? ` ${direction}` : ''}${onto}`;
+  }
+  if (type === 'on ramp') {
+    return `Take the ramp${direction ? ` on the ${direction}` : ''}${onto}`;
+  }
+  if (type === 'off ramp') {
+    const towards = step.destinations ? ` towards ${step.destinations}` : '';
+    return `Take the exit${direction ? ` on the ${direction}` : ''}${towards}`;
+  }
+  if (type === 'fork') {
+    return `Keep ${direction || 'straight'} at the fork${onto}`;
+  }
+  if (type === 'end of road') {
+    return `At the end of the road, turn ${direction || 'ahead'}${onto}`;
+  }
+  if (modifier === 'uturn') {
+    return `Make a U-turn${onto}`;
+  }
+  if (modifier === 'straight') {
+    return `Continue straight${onto}`;
+  }
+  return `Turn ${direction || 'ahead'}${onto}`;
+}
+
+/**
+ * Flatten the legs of an OSRM route into the maneuvers worth announcing, with their
+ * distance along the route
+ */
+export function parseOsrmLegs(legs: Array<{ steps?: OsrmStep[] }>): RouteManeuver[] {
+  const maneuvers: RouteManeuver[] = [];
+  let distanceAlong = 0;
+
+  legs.forEach((leg, legIndex) => {
+    (leg.steps || []).forEach((step) => {
+      const { type, modifier, location } = step.maneuver;
+      // A "continue" that changes direction is still a turn worth announcing
+      const silent = SILENT_TYPES.has(type) && !(type === 'continue' && modifier && modifier !== 'straight');
+      // Intermediate stops arrive and depart again at the same point; only the arrival is announced
+      const redundantDepart = type === 'depart' && legIndex > 0;
+
+      if (!silent && !redundantDepart) {
+        maneuvers.push({
+          location: [location[1], location[0]],
+          distanceAlongMeters: distanceAlong,
+          type,
+          modifier,
+          instruction: describeManeuver(step, legIndex, legs.length),
+        });
+      }
+      distanceAlong += step.distance;
+    });
+  });
+
+  return maneuvers;
+}
+
+/**
+ * Arrow for a maneuver direction, for compact display
+ */
+export function getManeuverIcon({ type, modifier }: Pick<RouteManeuver, 'type' | 'modifier'>): string {
+  if (type === 'arrive') return '🏁';
+  if (type === 'depart') return '🚩';
+  if (ROUNDABOUT_TYPES.has(type)) return '⟳';
+  switch (modifier) {
+    case 'left':
+    case 'sharp left':
+      return '⬅';
+    case 'slight left':
+      return '↖';
+    case 'right':
+    case 'sharp right':
+      return '➡';
+    case 'slight right':
+      return '↗';
+    case 'uturn':
+      return '↩';
+    default:
+      return '⬆';
+  }
+}
@@ -0,0 +1,130 @@
+// Slippy map tile math shared by the minimap and the video exporter
+
+import { ServiceEndpoint, buildTileUrl } from '../services/config';
+
+export const TILE_SIZE = 256;
+
+export interface PlacedTile {
+  x: number;
+  y: number;
+  /** Pixel offset of the tile's top-left corner inside the view */
+  left: number;
+  top: number;
+  url: string;
+}
+
+/**
+ * Convert lat/lon to precise tile coordinates (with decimal precision)
+ */
+export function latLonToTile(latitude: number, longitude: number, zoom: number): { x: number; y: number } {
+  const latRad = latitude * Math.PI / 180;
+  const n = Math.pow(2, zoom);
+
+  return {
+    x: (longitude + 180) / 360 * n,
+    y: (1 - Math.log(Math.tan(latRad) + 1 / Math.cos(latRad)) / Math.PI) / 2 * n,
+  };
+}
+
+/**
+ * Absolute pixel position of a point in the world map at the given zoom
+ */
+export function latLonToWorldPixel(latitude: number, longitude: number, zoom: number): { x: number; y: number } {
+  const tile = latLonToTile(latitude, longitude, zoom);
+  return { x: tile.x * TILE_SIZE, y: tile.y * TILE_SIZE };
+}
+
+/**
+ * Inverse of latLonToWorldPixel, returning [lat, lon]
+ */
+export function worldPixelToLatLon(x: number, y: number, zoom: number): [number, number] {
+  const n = Math.pow(2, zoom) * TILE_SIZE;
+  const longitude = x / n * 360 - 180;
+  const latitude = Math.atan(Math.sinh(Math.PI * (1 - 2 * y / n))) * 180 / Math.PI;
+  return [latitude, longitude];
+}
+
+/**
+ * Highest zoom at which all points fit in a width × height view (with padding), and the centre to use
+ */
+export function fitBounds(
+  points: [number, number][],
+  width: number,
+  height: number,
+  padding: number = 20,
+  minZoom: number = 2,
+  maxZoom: number = 18
+): { center: [number, number]; zoom: number } {
+  if (points.length === 0) {
+    return { center: [0, 0], zoom: minZoom };
+  }
+
+  const lats = points.map(([lat]) => lat);
+  const lons = points.map(([, lon]) => lon);
+  const minLat = Math.min(...lats);
+  const maxLat = Math.max(...lats);
+  const minLon = Math.min(...lons);
+  const maxLon = Math.max(...lons);
+  const center: [number, number] = [(minLat + maxLat) / 2, (minLon + maxLon) / 2];
+
+  for (let zoom = maxZoom; zoom > minZoom; zoom--) {
+    const topLeft = latLonToWorldPixel(maxLat, minLon, zoom);
+    const bottomRight = latLonToWorldPixel(minLat, maxLon, zoom);
+    if (
+      bottomRight.x - topLeft.x <= width - padding * 2 &&
+      bottomRight.y - topLeft.y <= height - padding * 2
+    ) {
+      return { center, zoom };
+    }
+  }
+
+  return { center, zoom: minZoom };
+}
+
+/**
+ * Tiles needed to fill a width × height view centred on the given point
+ */
+export function getTilesForView(
+  latitude: number,
+  longitude: number,
+  zoom: number,
+  width: number,
+  height: number,
+  tiles: ServiceEndpoint
+): PlacedTile[] {
+  const { x: xtileFloat, y: ytileFloat } = latLonToTile(latitude, longitude, zoom);
+
+  // Calculate pixel position of the point within the world at this zoom level
+  const worldPixelX = xtileFloat * TILE_SIZE;
+  const worldPixelY = ytileFloat * TILE_SIZE;
+
+  // Center of our map view
+  const centerX = width / 2;
+  const centerY = height / 2;
+
+  // Calculate which tiles we need to cover the map area
+  const placed: PlacedTile[] = [];
+  const tilesX = Math.ceil(width / TILE_SIZE) + 1;
+  const tilesY = Math.ceil(height / TILE_SIZE) + 1;
+
+  // Starting tile (top-left corner of our view)
+  const startTileX = Math.floor(xtileFloat - (width / 2) / TILE_SIZE);
+  const startTileY = Math.floor(ytileFloat - (height / 2) / TILE_SIZE);
+
+  for (let ty = 0; ty < tilesY; ty++) {
+    for (let tx = 0; tx < tilesX; tx++) {
+      const tileX = startTileX + tx;
+      const tileY = startTileY + ty;
+
+      placed.push({
+        x: tileX,
+        y: tileY,
+        left: tileX * TILE_SIZE - worldPixelX + centerX,
+        top: tileY * TILE_SIZE - worldPixelY + centerY,
+        url: buildTileUrl(tiles, zoom, tileX, tileY),
+      });
+    }
+  }
+
+  return placed;
+}
@@ -0,0 +1,71 @@
+import { DriveFrame, Waypoint } from './drive';
+import { VirtualSpeed, formatDuration, getDwellTimeMs, getFrameDistances, toMetersPerSecond } from './playback';
+
+// Roughly one meter of latitude, in degrees
+const METER = 1 / 111195;
+
+// Waypoints every 100 m heading north
+const waypoints: Waypoint[] = [0, 1, 2, 3, 4].map((n) => ({ coord: [37.76 + n * 100 * METER, -122.42], bearing: 0 }));
+
+// Frame found for a waypoint, slightly east of it unless placed elsewhere
+function frame(id: string, waypointIndex: number, coord: [number, number] = waypoints[waypointIndex].coord): DriveFrame {
+  const [lat, lon] = coord;
+  return { id, thumbUrl: `https://example.com/${id}.jpg`, geometry: { coordinates: [lon + 0.00005, lat] }, waypointIndex, bearing: 0 };
+}
+
+describe('toMetersPerSecond', () => {
+  it('converts km/h and mph', () => {
+    expect(toMetersPerSecond({ value: 36, unit: 'kmh' })).toBeCloseTo(10);
+    expect(toMetersPerSecond({ value: 60, unit: 'mph' })).toBeCloseTo(26.8224);
+    expect(toMetersPerSecond({ value: 0, unit: 'kmh' })).toBe(0);
+  });
+});
+
+describe('formatDuration', () => {
+  it('picks seconds, minutes or hours', () => {
+    expect(formatDuration(44.6)).toBe('45 s');
+    expect(formatDuration(59)).toBe('59 s');
+    expect(formatDuration(60)).toBe('1 min');
+    expect(formatDuration(12 * 60 + 20)).toBe('12 min');
+    expect(formatDuration(3600 + 5 * 60)).toBe('1 h 05 min');
+    expect(formatDuration(2 * 3600 + 45 * 60)).toBe('2 h 45 min');
+  });
+});
+
+describe('getFrameDistances', () => {
+  it('measures along the route between the waypoints the frames were found for', () => {
+    const distances = getFrameDistances([frame('a', 0), frame('b', 1), frame('c', 3)], waypoints);
+
+    expect(distances[0]).toBeCloseTo(100, 0);
+    expect(distances[1]).toBeCloseTo(200, 0);
+    // Nothing after the last frame
+    expect(distances[2]).toBe(0);
+  });
+
+  it('falls back to the straight line when the waypoints do not move forward', () => {
+    const ahead: [number, number] = [waypoints[1].coord[0] + 50 * METER, waypoints[1].coord[1]];
+    const distances = getFrameDistances([frame('a', 1), frame('b', 1, ahead)], waypoints);
+
+    expect(distances[0]).toBeCloseTo(50, 0);
+  });
+});
+
+describe('getDwellTimeMs', () => {
+  const speed: VirtualSpeed = { value: 36, unit: 'kmh', timeCompression: 1 };
+
+  it('shows a frame for as long as it takes to cover its distance', () => {
+    expect(getDwellTimeMs(100, speed)).toBeCloseTo(10000);
+    expect(getDwellTimeMs(100, { ...speed, timeCompression: 4 })).toBeCloseTo(2500);
+  });
+
+  it('keeps the dwell time within bounds', () => {
+    // Closely spaced frames stay visible, gaps don't freeze playback
+    expect(getDwellTimeMs(0, speed)).toBe(150);
+    expect(getDwellTimeMs(5000, speed)).toBe(15000);
+    expect(getDwellTimeMs(100, { ...speed, value: 0 })).toBe(15000);
+  });
+
+  it('treats a time compression below 1 as real time', () => {
+    expect(getDwellTimeMs(100, { ...speed, timeCompression: 0 })).toBeCloseTo(10000);
+  });
+});
@@ -0,0 +1,107 @@
+// Distance-based playback: how long each frame stays on screen at a simulated travel speed
+
+import { distance } from './calculations';
+import { DriveFrame, Waypoint, getFrameCoordinate } from './drive';
+
+export type PlaybackMode = 'interval' | 'distance';
+export type SpeedUnit = 'kmh' | 'mph';
+
+export interface VirtualSpeed {
+  value: number;
+  unit: SpeedUnit;
+  /** Play this many times faster than real time */
+  timeCompression: number;
+}
+
+export const SPEED_UNIT_LABELS: Record<SpeedUnit, string> = {
+  kmh: 'km/h',
+  mph: 'mph',
+};
+
+export const TIME_COMPRESSION_OPTIONS = [1, 2, 4, 8, 16, 32];
+
+const METERS_PER_MILE = 1609.344;
+// Dwell times are kept within these bounds so gaps don't freeze playback and
+// closely spaced frames are still visible
+const MIN_DWELL_MS = 150;
+const MAX_DWELL_MS = 15000;
+
+/**
+ * Speed in meters per second
+ */
+export function toMetersPerSecond({ value, unit }: Pick<VirtualSpeed, 'value' | 'unit'>): number {
+  const metersPerHour = unit === 'mph' ? value * METERS_PER_MILE : value * 1000;
+  return metersPerHour / 3600;
+}
+
+/**
+ * Cumulative distance along the route at every waypoint, in meters
+ */
+export function getWaypointDistances(waypoints: Waypoint[]): number[] {
+  const cumulative: number[] = [];
+  waypoints.forEach((waypoint, index) => {
+    cumulative.push(index === 0 ? 0 : cumulative[index - 1] + distance(waypoints[index - 1].coord, waypoint.coord) * 1000);
+  });
+  return cumulative;
+}
+
+/**
+ * Along-route distance from each frame to the next one, in meters.
+ * Uses the waypoints the frames were found for, so a frame slightly off the road doesn't
+ * shorten or stretch the stretch; falls back to the straight line between the images.
+ * The last frame gets 0, as there is nothing after it.
+ */
+export function getFrameDistances(frames: DriveFrame[], waypoints: Waypoint[]): number[] {
+  const cumulative = getWaypointDistances(waypoints);
+
+  return frames.map((frame, index) => {
+    const next = frames[index + 1];
+    if (!next) return 0;
+
+    const from = cumulative[frame.waypointIndex];
+    const to = cumulative[next.waypointIndex];
+    if (from !== undefined && to !== undefined && to > from) {
+      return to - from;
+    }
+    return distance(getFrameCoordinate(frame), getFrameCoordinate(next)) * 1000;
+  });
+}
+
+/**
+ * Milliseconds a frame should be shown to cover the given distance at the virtual speed
+ */
+export function getDwellTimeMs(distanceMeters: number, speed: VirtualSpeed): number {
+  const metersPerSecond = toMetersPerSecond(speed) * Math.max(speed.timeCompression, 1);
+  if (metersPerSecond <= 0) return MAX_DWELL_MS;
+  const dwell = (distanceMeters / metersPerSecond) * 1000;
+  return Math.min(Math.max(dwell, MIN_DWELL_MS), MAX_DWELL_MS);
+}
+
+/**
+ * Length of a [lat, lon] polyline in meters
+ */
+export function getRouteLength(route: [number, number][]): number {
+  let total = 0;
+  for (let i = 1; i < route.length; i++) {
+    total += distance(route[i - 1], route[i]) * 1000;
+  }
+  return total;
+}
+
+/**
+ * How far along the route each frame is, in meters, measured at the waypoint it was found for
+ */
+export function getFrameRoutePositions(frames: DriveFrame[], waypoints: Waypoint[]): number[] {
+  const cumulative = getWaypointDistances(waypoints);
+  return frames.map((frame) => cumulative[frame.waypointIndex] ?? 0);
+}
+
+/**
+ * Human-readable duration, e.g. "45 s", "12 min" or "1 h 05 min"
+ */
+export function formatDuration(seconds: number): string {
+  if (seconds < 60) return `${Math.round(seconds)} s`;
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) return `${minutes} min`;
+  return `${Math.floor(minutes / 60)} h ${String(minutes % 60).padStart(2, '0')} min`;
+}
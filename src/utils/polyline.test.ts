@@ -0,0 +1,22 @@
+import { decode, encode } from './polyline';
+
+// The worked example from Google's encoded polyline format documentation
+const points: [number, number][] = [[38.5, -120.2], [40.7, -120.95], [43.252, -126.453]];
+const encoded = '_p~iF~ps|U_ulLnnqC_mqNvxq`@';
+
+describe('polyline', () => {
+  it('encodes and decodes the reference example', () => {
+    expect(encode(points)).toBe(encoded);
+    expect(decode(encoded)).toEqual(points);
+  });
+
+  it('rounds to the precision', () => {
+    expect(decode(encode([[37.123456789, -122.987654321]]))).toEqual([[37.12346, -122.98765]]);
+    expect(decode(encode([[37.123456789, -122.987654321]], 6), 6)).toEqual([[37.123457, -122.987654]]);
+  });
+
+  it('handles an empty line', () => {
+    expect(encode([])).toBe('');
+    expect(decode('')).toEqual([]);
+  });
+});
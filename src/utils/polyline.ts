@@ -44,3 +44,36 @@ export function decode(str: string, precision: number = 5): [number, number][] {
 
   return coordinates;
 }
+
+function encodeValue(value: number): string {
+  let encoded = '';
+  let remaining = value < 0 ? ~(value << 1) : value << 1;
+
+  while (remaining >= 0x20) {
+    encoded += String.fromCharCode((0x20 | (remaining & 0x1f)) + 63);
+    remaining >>= 5;
+  }
+  encoded += String.fromCharCode(remaining + 63);
+
+  return encoded;
+}
+
+export function encode(coordinates: [number, number][], precision: number = 5): string {
+  const factor = Math.pow(10, precision);
+  let prevLat = 0;
+  let prevLng = 0;
+  let output = '';
+
+  for (const [lat, lng] of coordinates) {
+    const roundedLat = Math.round(lat * factor);
+    const roundedLng = Math.round(lng * factor);
+
+    output += encodeValue(roundedLat - prevLat);
+    output += encodeValue(roundedLng - prevLng);
+
+    prevLat = roundedLat;
+    prevLng = roundedLng;
+  }
+
+  return output;
+}
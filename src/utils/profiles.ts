@@ -0,0 +1,63 @@
+// Travel profiles: routing mode plus the waypoint and playback defaults that suit it
+
+export type TravelProfile = 'driving' | 'cycling' | 'walking';
+
+export interface ProfileSettings {
+  label: string;
+  icon: string;
+  /** OSRM profile name used in /route/v1/{profile}/ */
+  osrmProfile: string;
+  /** Distance between sampled waypoints along the route */
+  waypointSpacingMeters: number;
+  /** Minimum distance between two selected images */
+  minImageDistanceMeters: number;
+  /** Default milliseconds per frame in the slideshow */
+  playbackSpeedMs: number;
+  /** Default simulated travel speed for distance-based playback */
+  virtualSpeedKmh: number;
+  /**
+   * Camera makes typical for captures made in this mode, matched case-insensitively
+   * against Mapillary's `make` field (e.g. action cams on bikes, phones on foot)
+   */
+  preferredCameraMakes: string[];
+  /** Short description of the favoured captures, shown in the form */
+  captureHint: string;
+}
+
+export const TRAVEL_PROFILES: Record<TravelProfile, ProfileSettings> = {
+  driving: {
+    label: 'Driving',
+    icon: '🚗',
+    osrmProfile: 'driving',
+    waypointSpacingMeters: 50,
+    minImageDistanceMeters: 30,
+    playbackSpeedMs: 2000,
+    virtualSpeedKmh: 50,
+    preferredCameraMakes: ['blackvue', 'nextbase', 'viofo', 'garmin', 'thinkware', 'tesla'],
+    captureHint: 'captured from vehicles',
+  },
+  cycling: {
+    label: 'Cycling',
+    icon: '🚲',
+    osrmProfile: 'cycling',
+    waypointSpacingMeters: 25,
+    minImageDistanceMeters: 15,
+    playbackSpeedMs: 1000,
+    virtualSpeedKmh: 18,
+    preferredCameraMakes: ['gopro', 'insta360', 'garmin', 'sony', 'dji'],
+    captureHint: 'captured from bikes',
+  },
+  walking: {
+    label: 'Walking',
+    icon: '🚶',
+    osrmProfile: 'walking',
+    waypointSpacingMeters: 10,
+    minImageDistanceMeters: 8,
+    playbackSpeedMs: 1000,
+    virtualSpeedKmh: 5,
+    preferredCameraMakes: ['apple', 'samsung', 'google', 'huawei', 'xiaomi', 'oneplus'],
+    captureHint: 'captured on foot',
+  },
+};
+
+export const DEFAULT_PROFILE: TravelProfile = 'driving';
@@ -0,0 +1,109 @@
+// Export a drive as GeoJSON or GPX for use in GIS tools
+
+import { DriveData, getFrameCoordinate } from './drive';
+
+const toLonLat = ([lat, lon]: [number, number]): [number, number] => [lon, lat];
+
+/**
+ * FeatureCollection with the route line, the sampled waypoints and the selected image points
+ */
+export function driveToGeoJSON(drive: DriveData): object {
+  const features: object[] = [];
+
+  if (drive.route.length > 1) {
+    features.push({
+      type: 'Feature',
+      geometry: {
+        type: 'LineString',
+        coordinates: drive.route.map(toLonLat),
+      },
+      properties: { kind: 'route' },
+    });
+  }
+
+  drive.waypoints.forEach((waypoint, index) => {
+    features.push({
+      type: 'Feature',
+      geometry: { type: 'Point', coordinates: toLonLat(waypoint.coord) },
+      properties: {
+        kind: 'waypoint',
+        index,
+        bearing: waypoint.bearing,
+      },
+    });
+  });
+
+  drive.frames.forEach((frame, index) => {
+    features.push({
+      type: 'Feature',
+      geometry: { type: 'Point', coordinates: frame.geometry.coordinates },
+      properties: {
+        kind: 'image',
+        frame: index,
+        id: frame.id,
+        compass_angle: frame.computedCompassAngle ?? null,
+        thumb_url: frame.thumbUrl,
+        sequence_id: frame.sequenceId ?? null,
+        low_confidence: Boolean(frame.lowConfidence),
+        waypoint_index: frame.waypointIndex,
+      },
+    });
+  });
+
+  return { type: 'FeatureCollection', features };
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+const formatCoord = (value: number) => value.toFixed(7);
+
+/**
+ * GPX 1.1 document with the route as a track, and waypoints and image points as <wpt> elements
+ */
+export function driveToGPX(drive: DriveData, name: string = 'Mapillary drive'): string {
+  const lines: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="Mapillary Street View Simulator" xmlns="http://www.topografix.com/GPX/1/1">',
+    `  <metadata><name>${escapeXml(name)}</name><time>${new Date().toISOString()}</time></metadata>`,
+  ];
+
+  drive.waypoints.forEach((waypoint, index) => {
+    const [lat, lon] = waypoint.coord;
+    lines.push(`  <wpt lat="${formatCoord(lat)}" lon="${formatCoord(lon)}">`);
+    lines.push(`    <name>Waypoint ${index + 1}</name>`);
+    lines.push(`    <desc>Bearing ${waypoint.bearing.toFixed(1)}°</desc>`);
+    lines.push('    <type>waypoint</type>');
+    lines.push('  </wpt>');
+  });
+
+  drive.frames.forEach((frame, index) => {
+    const [lat, lon] = getFrameCoordinate(frame);
+    lines.push(`  <wpt lat="${formatCoord(lat)}" lon="${formatCoord(lon)}">`);
+    lines.push(`    <name>Frame ${index + 1}</name>`);
+    lines.push(`    <desc>Mapillary image ${escapeXml(frame.id)}${
+      frame.computedCompassAngle !== undefined ? `, compass ${frame.computedCompassAngle.toFixed(1)}°` : ''
+    }</desc>`);
+    lines.push(`    <link href="${escapeXml(frame.thumbUrl)}"><text>Image</text></link>`);
+    lines.push('    <type>image</type>');
+    lines.push('  </wpt>');
+  });
+
+  lines.push('  <trk>');
+  lines.push(`    <name>${escapeXml(name)}</name>`);
+  lines.push('    <trkseg>');
+  drive.route.forEach(([lat, lon]) => {
+    lines.push(`      <trkpt lat="${formatCoord(lat)}" lon="${formatCoord(lon)}"></trkpt>`);
+  });
+  lines.push('    </trkseg>');
+  lines.push('  </trk>');
+  lines.push('</gpx>');
+
+  return lines.join('\n');
+}
@@ -0,0 +1,89 @@
+import { parseGPX, parseGeoJSON, parseKML, parseTrackFile } from './trackImport';
+
+// Just enough of a File for parseTrackFile
+const file = (name: string, content: string) => ({ name, text: async () => content } as unknown as File);
+
+describe('parseGPX', () => {
+  it('reads track points as [lat, lon]', () => {
+    const gpx = `<?xml version="1.0"?>
+      <gpx version="1.1" xmlns="http://www.topografix.com/GPX/1/1">
+        <trk><trkseg>
+          <trkpt lat="37.76" lon="-122.42"><ele>10</ele></trkpt>
+          <trkpt lat="37.75" lon="-122.41"/>
+          <trkpt lat="oops" lon="-122.40"/>
+        </trkseg></trk>
+      </gpx>`;
+    expect(parseGPX(gpx)).toEqual([[37.76, -122.42], [37.75, -122.41]]);
+  });
+
+  it('falls back to route points, then waypoints', () => {
+    expect(parseGPX('<gpx><rte><rtept lat="1" lon="2"/><rtept lat="3" lon="4"/></rte></gpx>')).toEqual([[1, 2], [3, 4]]);
+    expect(parseGPX('<gpx><wpt lat="5" lon="6"/></gpx>')).toEqual([[5, 6]]);
+  });
+
+  it('rejects malformed XML', () => {
+    expect(() => parseGPX('<gpx><trk>')).toThrow('Track file is not valid XML');
+  });
+});
+
+describe('parseKML', () => {
+  it('joins every LineString in document order', () => {
+    const kml = `<kml xmlns="http://www.opengis.net/kml/2.2"><Document>
+      <Placemark><LineString><coordinates>-122.42,37.76,0 -122.41,37.75,0</coordinates></LineString></Placemark>
+      <Placemark><LineString><coordinates>
+        -122.40,37.74
+      </coordinates></LineString></Placemark>
+    </Document></kml>`;
+    expect(parseKML(kml)).toEqual([[37.76, -122.42], [37.75, -122.41], [37.74, -122.4]]);
+  });
+
+  it('reads gx:Track coordinates when there is no LineString', () => {
+    const kml = `<kml xmlns="http://www.opengis.net/kml/2.2" xmlns:gx="http://www.google.com/kml/ext/2.2">
+      <Placemark><gx:Track><gx:coord>-122.42 37.76 0</gx:coord><gx:coord>-122.41 37.75 0</gx:coord></gx:Track></Placemark>
+    </kml>`;
+    expect(parseKML(kml)).toEqual([[37.76, -122.42], [37.75, -122.41]]);
+  });
+});
+
+describe('parseGeoJSON', () => {
+  it('reads LineStrings from geometries, features and collections', () => {
+    const line = { type: 'LineString', coordinates: [[-122.42, 37.76], [-122.41, 37.75]] };
+    const expected = [[37.76, -122.42], [37.75, -122.41]];
+
+    expect(parseGeoJSON(JSON.stringify(line))).toEqual(expected);
+    expect(parseGeoJSON(JSON.stringify({ type: 'Feature', geometry: line, properties: {} }))).toEqual(expected);
+    expect(
+      parseGeoJSON(JSON.stringify({
+        type: 'FeatureCollection',
+        features: [
+          { type: 'Feature', geometry: { type: 'Point', coordinates: [0, 0] }, properties: {} },
+          { type: 'Feature', geometry: { type: 'MultiLineString', coordinates: [line.coordinates] }, properties: {} },
+        ],
+      }))
+    ).toEqual(expected);
+  });
+
+  it('rejects invalid JSON', () => {
+    expect(() => parseGeoJSON('{ nope')).toThrow('Track file is not valid JSON');
+  });
+});
+
+describe('parseTrackFile', () => {
+  it('detects the format from the extension or the content and names the track after the file', async () => {
+    const geoJSON = JSON.stringify({ type: 'LineString', coordinates: [[2, 1], [4, 3]] });
+
+    await expect(parseTrackFile(file('Morning ride.geojson', geoJSON))).resolves.toEqual({
+      name: 'Morning ride',
+      coordinates: [[1, 2], [3, 4]],
+    });
+    await expect(parseTrackFile(file('export.txt', geoJSON))).resolves.toMatchObject({ name: 'export' });
+  });
+
+  it('needs at least two points', async () => {
+    await expect(parseTrackFile(file('one.gpx', '<gpx><wpt lat="1" lon="2"/></gpx>'))).rejects.toThrow(/No line found in one\.gpx/);
+  });
+
+  it('rejects files it cannot recognise', async () => {
+    await expect(parseTrackFile(file('notes.txt', 'hello'))).rejects.toThrow(/Unsupported track file: notes\.txt/);
+  });
+});
@@ -0,0 +1,146 @@
+// Parse uploaded GPX, GeoJSON and KML files into a route polyline
+
+export interface ImportedTrack {
+  name: string;
+  /** Track points as [lat, lon] pairs */
+  coordinates: [number, number][];
+}
+
+export type TrackFormat = 'gpx' | 'geojson' | 'kml';
+
+function detectFormat(filename: string, content: string): TrackFormat {
+  const extension = filename.split('.').pop()?.toLowerCase();
+  if (extension === 'gpx') return 'gpx';
+  if (extension === 'kml') return 'kml';
+  if (extension === 'geojson' || extension === 'json') return 'geojson';
+
+  // Fall back to sniffing the content
+  const trimmed = content.trimStart();
+  if (trimmed.startsWith('{')) return 'geojson';
+  if (trimmed.includes('<gpx')) return 'gpx';
+  if (trimmed.includes('<kml')) return 'kml';
+
+  throw new Error(`Unsupported track file: ${filename}. Use GPX, GeoJSON or KML.`);
+}
+
+function parseXml(content: string): Document {
+  const doc = new DOMParser().parseFromString(content, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Track file is not valid XML');
+  }
+  return doc;
+}
+
+function pointsFromElements(elements: HTMLCollectionOf<Element>): [number, number][] {
+  const points: [number, number][] = [];
+  for (let i = 0; i < elements.length; i++) {
+    const lat = parseFloat(elements[i].getAttribute('lat') || '');
+    const lon = parseFloat(elements[i].getAttribute('lon') || '');
+    if (!isNaN(lat) && !isNaN(lon)) {
+      points.push([lat, lon]);
+    }
+  }
+  return points;
+}
+
+/**
+ * Track points of a GPX file; falls back to route points, then waypoints
+ */
+export function parseGPX(content: string): [number, number][] {
+  const doc = parseXml(content);
+  for (const tag of ['trkpt', 'rtept', 'wpt']) {
+    const points = pointsFromElements(doc.getElementsByTagName(tag));
+    if (points.length > 0) return points;
+  }
+  return [];
+}
+
+/**
+ * Coordinates of every LineString (and gx:Track) in a KML file, in document order
+ */
+export function parseKML(content: string): [number, number][] {
+  const doc = parseXml(content);
+  const points: [number, number][] = [];
+
+  const lineStrings = doc.getElementsByTagName('LineString');
+  for (let i = 0; i < lineStrings.length; i++) {
+    const coordinates = lineStrings[i].getElementsByTagName('coordinates')[0]?.textContent || '';
+    // KML tuples are "lon,lat[,alt]" separated by whitespace
+    coordinates.trim().split(/\s+/).forEach((tuple) => {
+      const [lon, lat] = tuple.split(',').map(parseFloat);
+      if (!isNaN(lat) && !isNaN(lon)) {
+        points.push([lat, lon]);
+      }
+    });
+  }
+
+  if (points.length === 0) {
+    // gx:Track uses space separated "lon lat alt" in <gx:coord>
+    const trackCoords = doc.getElementsByTagName('gx:coord');
+    for (let i = 0; i < trackCoords.length; i++) {
+      const [lon, lat] = (trackCoords[i].textContent || '').trim().split(/\s+/).map(parseFloat);
+      if (!isNaN(lat) && !isNaN(lon)) {
+        points.push([lat, lon]);
+      }
+    }
+  }
+
+  return points;
+}
+
+function lineCoordinatesFromGeometry(geometry: any): [number, number][] {
+  if (!geometry) return [];
+
+  const toLatLon = (position: number[]): [number, number] => [position[1], position[0]];
+
+  switch (geometry.type) {
+    case 'LineString':
+      return geometry.coordinates.map(toLatLon);
+    case 'MultiLineString':
+      return geometry.coordinates.flat().map(toLatLon);
+    case 'GeometryCollection':
+      return geometry.geometries.flatMap(lineCoordinatesFromGeometry);
+    default:
+      return [];
+  }
+}
+
+/**
+ * Coordinates of the LineString(s) in a GeoJSON geometry, Feature or FeatureCollection
+ */
+export function parseGeoJSON(content: string): [number, number][] {
+  let json: any;
+  try {
+    json = JSON.parse(content);
+  } catch (error) {
+    throw new Error('Track file is not valid JSON');
+  }
+
+  if (json.type === 'FeatureCollection') {
+    return json.features.flatMap((feature: any) => lineCoordinatesFromGeometry(feature.geometry));
+  }
+  if (json.type === 'Feature') {
+    return lineCoordinatesFromGeometry(json.geometry);
+  }
+  return lineCoordinatesFromGeometry(json);
+}
+
+/**
+ * Read an uploaded track file and return its points in order
+ */
+export async function parseTrackFile(file: File): Promise<ImportedTrack> {
+  const content = await file.text();
+  const format = detectFormat(file.name, content);
+
+  const coordinates =
+    format === 'gpx' ? parseGPX(content) : format === 'kml' ? parseKML(content) : parseGeoJSON(content);
+
+  if (coordinates.length < 2) {
+    throw new Error(`No line found in ${file.name}. The file needs a track or LineString with at least two points.`);
+  }
+
+  return {
+    name: file.name.replace(/\.[^.]+$/, ''),
+    coordinates,
+  };
+}
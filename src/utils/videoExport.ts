@@ -0,0 +1,217 @@
+// Render the drive's frames to a canvas and record them as a WebM video
+
+import { getServiceConfig } from '../services/config';
+import { getTilesForView, TILE_SIZE } from './mapTiles';
+
+export interface VideoExportOptions {
+  images: string[];
+  coordinates: [number, number][];
+  /** Milliseconds each frame stays on screen (the slideshow's playback speed) */
+  frameDurationMs: number;
+  /** Per-frame display times, used instead of frameDurationMs where given */
+  frameDurationsMs?: number[];
+  includeMinimap: boolean;
+  includeOverlay: boolean;
+  width?: number;
+  height?: number;
+  onProgress?: (framesDone: number, totalFrames: number) => void;
+  /** Checked between frames; return true to stop recording early */
+  isCancelled?: () => boolean;
+}
+
+const MINIMAP_WIDTH = 250;
+const MINIMAP_HEIGHT = 200;
+const MINIMAP_ZOOM = 15;
+const REDRAW_INTERVAL_MS = 100;
+
+/**
+ * Whether this browser can record a canvas to WebM
+ */
+export function isVideoExportSupported(): boolean {
+  return (
+    typeof MediaRecorder !== 'undefined' &&
+    typeof HTMLCanvasElement !== 'undefined' &&
+    typeof HTMLCanvasElement.prototype.captureStream === 'function'
+  );
+}
+
+function pickMimeType(): string {
+  const candidates = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+  return candidates.find((type) => MediaRecorder.isTypeSupported(type)) || 'video/webm';
+}
+
+export function loadImage(url: string): Promise<HTMLImageElement | null> {
+  return new Promise((resolve) => {
+    const img = new Image();
+    // Needed so drawing the image does not taint the canvas being recorded
+    img.crossOrigin = 'anonymous';
+    img.onload = () => resolve(img);
+    img.onerror = () => {
+      console.error('Could not load image for video export:', url);
+      resolve(null);
+    };
+    img.src = url;
+  });
+}
+
+function drawImageContained(ctx: CanvasRenderingContext2D, img: HTMLImageElement, width: number, height: number) {
+  const scale = Math.min(width / img.width, height / img.height);
+  const drawWidth = img.width * scale;
+  const drawHeight = img.height * scale;
+  ctx.drawImage(img, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+}
+
+async function drawMinimap(
+  ctx: CanvasRenderingContext2D,
+  coord: [number, number],
+  canvasWidth: number,
+  canvasHeight: number,
+  tileCache: Map<string, HTMLImageElement | null>
+) {
+  const { tiles } = getServiceConfig();
+  const left = canvasWidth - MINIMAP_WIDTH - 20;
+  const top = canvasHeight - MINIMAP_HEIGHT - 20;
+  const placed = getTilesForView(coord[0], coord[1], MINIMAP_ZOOM, MINIMAP_WIDTH, MINIMAP_HEIGHT, tiles);
+
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(left, top, MINIMAP_WIDTH, MINIMAP_HEIGHT);
+  ctx.clip();
+  ctx.fillStyle = '#e0e0e0';
+  ctx.fillRect(left, top, MINIMAP_WIDTH, MINIMAP_HEIGHT);
+
+  for (const tile of placed) {
+    if (!tileCache.has(tile.url)) {
+      tileCache.set(tile.url, await loadImage(tile.url));
+    }
+    const tileImage = tileCache.get(tile.url);
+    if (tileImage) {
+      ctx.drawImage(tileImage, left + tile.left, top + tile.top, TILE_SIZE, TILE_SIZE);
+    }
+  }
+
+  // Position marker
+  ctx.fillStyle = '#FF0000';
+  ctx.strokeStyle = '#ffffff';
+  ctx.lineWidth = 3;
+  ctx.beginPath();
+  ctx.arc(left + MINIMAP_WIDTH / 2, top + MINIMAP_HEIGHT / 2, 7, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.stroke();
+  ctx.restore();
+
+  ctx.strokeStyle = '#ffffff';
+  ctx.lineWidth = 2;
+  ctx.strokeRect(left, top, MINIMAP_WIDTH, MINIMAP_HEIGHT);
+}
+
+function drawOverlay(
+  ctx: CanvasRenderingContext2D,
+  index: number,
+  total: number,
+  coord: [number, number] | undefined
+) {
+  const lines = [`Image ${index + 1} of ${total}`];
+  if (coord) {
+    lines.push(`${coord[0].toFixed(6)}, ${coord[1].toFixed(6)}`);
+  }
+
+  ctx.font = '16px monospace';
+  const textWidth = Math.max(...lines.map((line) => ctx.measureText(line).width));
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+  ctx.fillRect(20, 20, textWidth + 24, lines.length * 22 + 14);
+  ctx.fillStyle = '#ffffff';
+  lines.forEach((line, i) => ctx.fillText(line, 32, 44 + i * 22));
+}
+
+/**
+ * Play the frames onto a canvas in real time and record it.
+ * Resolves with the WebM blob once every frame (or every frame before cancellation) is recorded.
+ */
+export async function exportDriveVideo(options: VideoExportOptions): Promise<Blob> {
+  const {
+    images,
+    coordinates,
+    frameDurationMs,
+    frameDurationsMs,
+    includeMinimap,
+    includeOverlay,
+    width = 1280,
+    height = 720,
+    onProgress,
+    isCancelled = () => false,
+  } = options;
+
+  if (!isVideoExportSupported()) {
+    throw new Error('Video export is not supported in this browser');
+  }
+  if (images.length === 0) {
+    throw new Error('There are no frames to export');
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Could not create a canvas for video export');
+  }
+
+  const stream = canvas.captureStream(1000 / REDRAW_INTERVAL_MS);
+  const recorder = new MediaRecorder(stream, { mimeType: pickMimeType() });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+  const stopped = new Promise<void>((resolve) => {
+    recorder.onstop = () => resolve();
+  });
+
+  const tileCache = new Map<string, HTMLImageElement | null>();
+  // Load the next frame while the current one is being recorded
+  let nextImage = loadImage(images[0]);
+
+  recorder.start(1000);
+  try {
+    for (let i = 0; i < images.length; i++) {
+      if (isCancelled()) break;
+
+      const img = await nextImage;
+      if (i + 1 < images.length) {
+        nextImage = loadImage(images[i + 1]);
+      }
+
+      // Compose the frame once, then keep repainting it so the stream emits frames for its whole duration
+      const frame = document.createElement('canvas');
+      frame.width = width;
+      frame.height = height;
+      const frameCtx = frame.getContext('2d')!;
+      frameCtx.fillStyle = '#000000';
+      frameCtx.fillRect(0, 0, width, height);
+      if (img) {
+        drawImageContained(frameCtx, img, width, height);
+      }
+      if (includeMinimap && coordinates[i]) {
+        await drawMinimap(frameCtx, coordinates[i], width, height, tileCache);
+      }
+      if (includeOverlay) {
+        drawOverlay(frameCtx, i, images.length, coordinates[i]);
+      }
+
+      const frameStart = Date.now();
+      const durationMs = frameDurationsMs?.[i] ?? frameDurationMs;
+      while (Date.now() - frameStart < durationMs) {
+        ctx.drawImage(frame, 0, 0);
+        await new Promise((resolve) => setTimeout(resolve, REDRAW_INTERVAL_MS));
+      }
+
+      onProgress?.(i + 1, images.length);
+    }
+  } finally {
+    recorder.stop();
+    stream.getTracks().forEach((track) => track.stop());
+  }
+
+  await stopped;
+  return new Blob(chunks, { type: 'video/webm' });
+}
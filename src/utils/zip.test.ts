@@ -0,0 +1,58 @@
+/**
+ * @jest-environment node
+ */
+import { Blob } from 'buffer';
+import { crc32, createZip, readZip } from './zip';
+
+// Node has these web APIs, but Jest's Node environment doesn't expose them
+// (and this version of the Node types doesn't know DecompressionStream)
+Object.assign(globalThis, { Blob, DecompressionStream: require('stream/web').DecompressionStream });
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+// Made with Python's zipfile: a directory entry and a deflated "folder/hello.txt"
+const DEFLATED_ZIP =
+  'UEsDBBQAAAAIAM+gU10AAAAAAgAAAAAAAAAHAAAAZm9sZGVyLwMAUEsDBBQAAAAIAM+gU10EIX9sDQAAABsAAAAQAAAAZm9sZGVyL2hlbGxvLnR4dMtIzcnJV8jAIKsyCwBQSwECFAMUAAAACADPoFNdAAAAAAIAAAAAAAAABwAAAAAAAAAAABAA/UEAAAAAZm9sZGVyL1BLAQIUAxQAAAAIAM+gU10EIX9sDQAAABsAAAAQAAAAAAAAAAAAAACAAScAAABmb2xkZXIvaGVsbG8udHh0UEsFBgAAAAACAAIAcwAAAGIAAAAAAA==';
+
+const toArrayBuffer = (bytes: Uint8Array) => bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength);
+
+describe('crc32', () => {
+  it('matches the standard check value', () => {
+    expect(crc32(encoder.encode('123456789'))).toBe(0xcbf43926);
+    expect(crc32(new Uint8Array(0))).toBe(0);
+  });
+});
+
+describe('zip', () => {
+  it('reads back what it writes, including UTF-8 names and empty files', async () => {
+    const entries = [
+      { name: 'manifest.json', data: encoder.encode('{"ok":true}') },
+      { name: 'images/00001-straße.jpg', data: new Uint8Array([0xff, 0xd8, 0xff, 0x00, 0x01]) },
+      { name: 'empty.txt', data: new Uint8Array(0) },
+    ];
+    const zip = createZip(entries, new Date(2024, 5, 1, 12, 30));
+    expect(zip.type).toBe('application/zip');
+
+    const files = await readZip(await zip.arrayBuffer());
+    expect(Array.from(files.keys())).toEqual(entries.map(({ name }) => name));
+    entries.forEach(({ name, data }) => expect(files.get(name)).toEqual(data));
+  });
+
+  it('reads deflated archives made by other tools, skipping directories', async () => {
+    const files = await readZip(toArrayBuffer(Buffer.from(DEFLATED_ZIP, 'base64')));
+    expect(Array.from(files.keys())).toEqual(['folder/hello.txt']);
+    expect(decoder.decode(files.get('folder/hello.txt'))).toBe('hello hello hello hello zip');
+  });
+
+  it('rejects files that are not zips', async () => {
+    await expect(readZip(toArrayBuffer(encoder.encode('definitely not a zip file')))).rejects.toThrow('Not a zip file');
+  });
+
+  it('notices corrupted contents', async () => {
+    const bytes = new Uint8Array(await createZip([{ name: 'a.txt', data: encoder.encode('abc') }]).arrayBuffer());
+    // The file data starts right after the 30-byte local header and the 5-byte name
+    bytes[35] ^= 0xff;
+    await expect(readZip(bytes.buffer)).rejects.toThrow('checksum mismatch for a.txt');
+  });
+});
@@ -0,0 +1,210 @@
+// Minimal zip archive support for drive packages: writes uncompressed ("stored") archives and reads
+// stored or deflated ones. Images are already compressed, so storing them costs next to nothing.
+// No zip64, so archives are limited to 4 GB and 65535 files.
+
+export interface ZipEntry {
+  /** Path inside the archive, with forward slashes */
+  name: string;
+  data: Uint8Array;
+}
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const LOCAL_HEADER_SIZE = 30;
+const CENTRAL_HEADER_SIZE = 46;
+const END_OF_CENTRAL_DIRECTORY_SIZE = 22;
+const ZIP_VERSION = 20;
+// General purpose flag bit 11: file names are UTF-8
+const UTF8_FLAG = 0x0800;
+const METHOD_STORED = 0;
+const METHOD_DEFLATED = 8;
+
+let crcTable: Uint32Array | null = null;
+
+function getCrcTable(): Uint32Array {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  return crcTable;
+}
+
+/**
+ * CRC-32 checksum as used by zip
+ */
+export function crc32(data: Uint8Array): number {
+  const table = getCrcTable();
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = table[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// MS-DOS date and time, the only timestamp format the base zip headers have
+function toDosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+/**
+ * Build an uncompressed zip archive
+ */
+export function createZip(entries: ZipEntry[], modified: Date = new Date()): Blob {
+  const encoder = new TextEncoder();
+  const { time, date } = toDosDateTime(modified);
+  const parts: Uint8Array[] = [];
+  const centralHeaders: Uint8Array[] = [];
+  let offset = 0;
+
+  entries.forEach((entry) => {
+    const name = encoder.encode(entry.name);
+    const crc = crc32(entry.data);
+
+    const local = new Uint8Array(LOCAL_HEADER_SIZE + name.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, LOCAL_HEADER_SIGNATURE, true);
+    localView.setUint16(4, ZIP_VERSION, true);
+    localView.setUint16(6, UTF8_FLAG, true);
+    localView.setUint16(8, METHOD_STORED, true);
+    localView.setUint16(10, time, true);
+    localView.setUint16(12, date, true);
+    localView.setUint32(14, crc, true);
+    localView.setUint32(18, entry.data.length, true);
+    localView.setUint32(22, entry.data.length, true);
+    localView.setUint16(26, name.length, true);
+    localView.setUint16(28, 0, true);
+    local.set(name, LOCAL_HEADER_SIZE);
+
+    const central = new Uint8Array(CENTRAL_HEADER_SIZE + name.length);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint32(0, CENTRAL_HEADER_SIGNATURE, true);
+    centralView.setUint16(4, ZIP_VERSION, true);
+    centralView.setUint16(6, ZIP_VERSION, true);
+    centralView.setUint16(8, UTF8_FLAG, true);
+    centralView.setUint16(10, METHOD_STORED, true);
+    centralView.setUint16(12, time, true);
+    centralView.setUint16(14, date, true);
+    centralView.setUint32(16, crc, true);
+    centralView.setUint32(20, entry.data.length, true);
+    centralView.setUint32(24, entry.data.length, true);
+    centralView.setUint16(28, name.length, true);
+    // Extra field, comment, disk number and attributes are all zero
+    centralView.setUint32(42, offset, true);
+    central.set(name, CENTRAL_HEADER_SIZE);
+
+    parts.push(local, entry.data);
+    centralHeaders.push(central);
+    offset += local.length + entry.data.length;
+  });
+
+  const centralSize = centralHeaders.reduce((sum, header) => sum + header.length, 0);
+  const end = new Uint8Array(END_OF_CENTRAL_DIRECTORY_SIZE);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, END_OF_CENTRAL_DIRECTORY_SIGNATURE, true);
+  endView.setUint16(8, entries.length, true);
+  endView.setUint16(10, entries.length, true);
+  endView.setUint32(12, centralSize, true);
+  endView.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...centralHeaders, end], { type: 'application/zip' });
+}
+
+// DecompressionStream is missing from this TypeScript version's DOM types
+type DecompressionStreamConstructor = new (format: string) => ReadableWritablePair<Uint8Array, Uint8Array>;
+
+async function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const Decompression = (globalThis as unknown as { DecompressionStream?: DecompressionStreamConstructor })
+    .DecompressionStream;
+  if (!Decompression) {
+    throw new Error('This browser cannot read compressed zip files; re-create the archive without compression');
+  }
+  const reader = new Blob([data]).stream().pipeThrough(new Decompression('deflate-raw')).getReader();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  for (let result = await reader.read(); !result.done; result = await reader.read()) {
+    chunks.push(result.value);
+    length += result.value.length;
+  }
+
+  const inflated = new Uint8Array(length);
+  let offset = 0;
+  chunks.forEach((chunk) => {
+    inflated.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return inflated;
+}
+
+function findEndOfCentralDirectory(view: DataView): number {
+  // The record sits at the very end, followed only by an optional comment of up to 64 KB
+  const earliest = Math.max(0, view.byteLength - END_OF_CENTRAL_DIRECTORY_SIZE - 0xffff);
+  for (let i = view.byteLength - END_OF_CENTRAL_DIRECTORY_SIZE; i >= earliest; i--) {
+    if (view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) return i;
+  }
+  throw new Error('Not a zip file');
+}
+
+/**
+ * Read every file in a zip archive, keyed by path. Directories are skipped.
+ */
+export async function readZip(buffer: ArrayBuffer): Promise<Map<string, Uint8Array>> {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const decoder = new TextDecoder();
+  const files = new Map<string, Uint8Array>();
+
+  const end = findEndOfCentralDirectory(view);
+  const entryCount = view.getUint16(end + 10, true);
+  let position = view.getUint32(end + 16, true);
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(position, true) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new Error('Corrupt zip file: bad central directory');
+    }
+    const method = view.getUint16(position + 10, true);
+    const crc = view.getUint32(position + 16, true);
+    const compressedSize = view.getUint32(position + 20, true);
+    const nameLength = view.getUint16(position + 28, true);
+    const extraLength = view.getUint16(position + 30, true);
+    const commentLength = view.getUint16(position + 32, true);
+    const localOffset = view.getUint32(position + 42, true);
+    const name = decoder.decode(bytes.subarray(position + CENTRAL_HEADER_SIZE, position + CENTRAL_HEADER_SIZE + nameLength));
+    position += CENTRAL_HEADER_SIZE + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) continue;
+
+    // The local header's extra field can differ from the central one, so read its own lengths
+    if (view.getUint32(localOffset, true) !== LOCAL_HEADER_SIGNATURE) {
+      throw new Error(`Corrupt zip file: bad header for ${name}`);
+    }
+    const dataStart = localOffset + LOCAL_HEADER_SIZE
+      + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const raw = bytes.subarray(dataStart, dataStart + compressedSize);
+
+    let data: Uint8Array;
+    if (method === METHOD_STORED) {
+      data = raw;
+    } else if (method === METHOD_DEFLATED) {
+      data = await inflateRaw(raw);
+    } else {
+      throw new Error(`Unsupported compression in zip file (method ${method}) for ${name}`);
+    }
+
+    if (crc32(data) !== crc) {
+      throw new Error(`Corrupt zip file: checksum mismatch for ${name}`);
+    }
+    files.set(name, data);
+  }
+
+  return files;
+}
@@ -0,0 +1,18 @@
+// Web Worker entry for the drive pipeline, so long routes don't block the UI thread.
+// The main thread starts one worker per drive or route plan and terminates it to cancel.
+
+import { DriveCommand, DriveEvent, PlanEvent, runDrivePipeline, runRoutePlanning } from '../services/drivePipeline';
+
+// Typed as a Worker: the same postMessage/onmessage surface, seen from the inside
+const ctx = globalThis as unknown as Worker;
+
+ctx.onmessage = (event: MessageEvent<DriveCommand>) => {
+  const command = event.data;
+  // Cancelling terminates the worker, so this signal never needs to fire
+  const { signal } = new AbortController();
+  if (command.type === 'start') {
+    runDrivePipeline(command.request, (driveEvent: DriveEvent) => ctx.postMessage(driveEvent), signal);
+  } else if (command.type === 'plan') {
+    runRoutePlanning(command.request, (planEvent: PlanEvent) => ctx.postMessage(planEvent), signal);
+  }
+};